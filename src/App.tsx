@@ -1,13 +1,35 @@
 import { type MouseEvent, useCallback, useEffect, useMemo, useRef, useState } from "react"
-import { lootConfig } from "@/assets/pools.ts"
-import useLoot, { type ChestType } from "@/hooks/useLoot.tsx"
-
-export const toPercentage = (value: number, total: number) => {
-  return Number.parseFloat((value === 0 ? 0 : (value / total) * 100).toFixed(2))
-}
-
-const RARITY_ORDER = ["common", "uncommon", "rare", "epic", "legendary", "mythic"] as const
-type Rarity = (typeof RARITY_ORDER)[number]
+import { featuredBanners } from "@/assets/banners.ts"
+import { timedEvents } from "@/assets/events.ts"
+import { ITEM_CATALOG } from "@/assets/items.ts"
+import { ChestIcon } from "@/components/chests/ChestIcon.tsx"
+import { ChestKeys } from "@/components/chests/ChestKeys.tsx"
+import { ChestPicker } from "@/components/chests/ChestPicker.tsx"
+import { ConfigPanel } from "@/components/config/ConfigPanel.tsx"
+import { LootEditorPanel } from "@/components/config/LootEditorPanel.tsx"
+import { CraftingPanel } from "@/components/crafting/CraftingPanel.tsx"
+import { DropRatesPanel } from "@/components/disclosure/DropRatesPanel.tsx"
+import { ClockControls } from "@/components/events/ClockControls.tsx"
+import { EventBanner } from "@/components/events/EventBanner.tsx"
+import { HistoryPanel } from "@/components/history/HistoryPanel.tsx"
+import { CollectionPanel } from "@/components/inventory/CollectionPanel.tsx"
+import { PixelIcon } from "@/components/items/PixelIcon.tsx"
+import { SavesPanel } from "@/components/session/SavesPanel.tsx"
+import { SeedControls } from "@/components/session/SeedControls.tsx"
+import { OddsPanel } from "@/components/simulation/OddsPanel.tsx"
+import { SimulationPanel } from "@/components/simulation/SimulationPanel.tsx"
+import useClock from "@/hooks/useClock.tsx"
+import useLoot from "@/hooks/useLoot.tsx"
+import { getActiveBanner } from "@/lib/loot/banners.ts"
+import type { Drop } from "@/lib/loot/engine.ts"
+import { getActiveEventModifiers } from "@/lib/loot/events.ts"
+import { getRarityIdx, RARITY_ORDER, type Rarity } from "@/lib/loot/rarity.ts"
+import { toPercentage } from "@/lib/math.ts"
+import { wilsonInterval } from "@/lib/stats.ts"
+import { getNow } from "@/stores/useClockStore.ts"
+import { useConfigStore } from "@/stores/useConfigStore.ts"
+import { useInventoryStore } from "@/stores/useInventoryStore.ts"
+import { useSessionStore } from "@/stores/useSessionStore.ts"
 
 const RARITY_ICONS: Record<Rarity, string> = {
   common: "◇",
@@ -20,7 +42,8 @@ const RARITY_ICONS: Record<Rarity, string> = {
 
 const getRarityClass = (rarity: string) => `rarity-${rarity}`
 const getGlowClass = (rarity: string) => `glow-${rarity}`
-const getRarityIdx = (rarity: string) => RARITY_ORDER.indexOf(rarity as Rarity)
+const getItemName = (item: string) => ITEM_CATALOG[item]?.name ?? item
+const formatRate = (pct: number) => `${pct.toFixed(pct < 1 ? 2 : 1)}%`
 
 const getRevealDelay = (rarity: string): number => {
   const idx = getRarityIdx(rarity)
@@ -54,50 +77,64 @@ const generateParticles = (
 }
 
 const App = () => {
-  const [count, setCount] = useState(0)
-  const [revealedDrops, setRevealedDrops] = useState<{ item: string; isBest: boolean }[]>([])
+  const [revealedDrops, setRevealedDrops] = useState<{ drop: Drop; isBest: boolean }[]>([])
   const [isAnimating, setIsAnimating] = useState(false)
   const [isShaking, setIsShaking] = useState(false)
   const [dropKey, setDropKey] = useState(0)
-  const [attempts, setAttempts] = useState(0)
   const [sidebarOpen, setSidebarOpen] = useState(true)
   const [showDebug, setShowDebug] = useState(false)
-  const [activeChest, setActiveChest] = useState<ChestType>("normal")
-  const [dropMultiplier, setDropMultiplier] = useState(1)
+  const [showSimulation, setShowSimulation] = useState(false)
+  const [showCollection, setShowCollection] = useState(false)
+  const [showConfig, setShowConfig] = useState(false)
+  const [showEditor, setShowEditor] = useState(false)
+  const [showSaves, setShowSaves] = useState(false)
+  const [showHistory, setShowHistory] = useState(false)
+  const [showOdds, setShowOdds] = useState(false)
+  const [showDropRates, setShowDropRates] = useState(false)
+  const [showCrafting, setShowCrafting] = useState(false)
   const [shakeIntensity, setShakeIntensity] = useState(2)
   const [titleFlash, setTitleFlash] = useState<Rarity | null>(null)
   const [particles, setParticles] = useState<{ rarity: Rarity; items: ReturnType<typeof generateParticles> } | null>(
     null,
   )
-  const [streakRare, setStreakRare] = useState(0)
-  const [streakEpic, setStreakEpic] = useState(0)
   const [announcement, setAnnouncement] = useState<Rarity | null>(null)
-  const [fragments, setFragments] = useState(0)
-  const [hotStreakRolls, setHotStreakRolls] = useState(0)
-  const [x2RollsLeft, setX2RollsLeft] = useState(0)
-  const [nextX2Threshold, setNextX2Threshold] = useState(() => 30 + Math.floor(Math.random() * 31))
-  const [totalRollsForEvent, setTotalRollsForEvent] = useState(0)
-  const [effectiveChest, setEffectiveChest] = useState<ChestType>("normal")
   const chestRef = useRef<HTMLButtonElement>(null)
   const revealTimeoutsRef = useRef<ReturnType<typeof setTimeout>[]>([])
 
-  const RARE_CHEST_FRAGMENTS = 20
-  const EPIC_CHEST_FRAGMENTS = 50
-
-  const observedCounts = useMemo(
-    () =>
-      new Map<string, number>([
-        ["common", 0],
-        ["uncommon", 0],
-        ["rare", 0],
-        ["epic", 0],
-        ["legendary", 0],
-        ["mythic", 0],
-      ]),
-    [],
-  )
-
-  const { getLoots, getRollCount } = useLoot(lootConfig.pools[0])
+  const rng = useSessionStore((s) => s.rng)
+  const lootState = useSessionStore((s) => s.lootState)
+  const activeChest = useSessionStore((s) => s.activeChest)
+  const dropMultiplier = useSessionStore((s) => s.dropMultiplier)
+  const effectiveChest = useSessionStore((s) => s.effectiveChest)
+  const attempts = useSessionStore((s) => s.attempts)
+  const count = useSessionStore((s) => s.rollCount)
+  const streakRare = useSessionStore((s) => s.streakRare)
+  const streakEpic = useSessionStore((s) => s.streakEpic)
+  const chestKeys = useSessionStore((s) => s.chestKeys)
+  const selectedKey = useSessionStore((s) => s.selectedKey)
+  const hotStreakRolls = useSessionStore((s) => s.hotStreakRolls)
+  const observedCounts = useSessionStore((s) => s.observedCounts)
+  const observedItems = useSessionStore((s) => s.observedItems)
+  const expectedCounts = useSessionStore((s) => s.expectedCounts)
+  const craftedCounts = useSessionStore((s) => s.craftedCounts)
+  const openChest = useSessionStore((s) => s.openChest)
+  const recordDrops = useSessionStore((s) => s.recordDrops)
+  const applyEvent = useSessionStore((s) => s.applyEvent)
+  const resetSession = useSessionStore((s) => s.resetSession)
+  const setSeed = useSessionStore((s) => s.setSeed)
+
+  const lootConfig = useConfigStore((s) => s.config)
+  const addToInventory = useInventoryStore((s) => s.addDrops)
+  const clearInventory = useInventoryStore((s) => s.clear)
+
+  const ownedItems = useInventoryStore((s) => s.items)
+  const engine = useLoot(lootConfig, rng, lootState, ownedItems)
+  const { getLoots, getPityProgress } = engine
+  const chests = engine.getChests()
+  // Only the chest skin depends on the clock here, the banner keeps its own countdown
+  const now = useClock(60_000)
+  const storedChest = selectedKey !== null && (chestKeys[selectedKey] ?? 0) > 0 ? selectedKey : null
+  const requestedChest = storedChest ?? getActiveEventModifiers(timedEvents, now).chest ?? activeChest
 
   useEffect(() => {
     const handler = (e: KeyboardEvent) => {
@@ -113,18 +150,10 @@ const App = () => {
     }
   }, [])
 
-  const computeObservedDropRates = (items: string[]) => {
-    const rollCount = getRollCount()
-    setCount(rollCount)
-    for (const item of items) {
-      observedCounts.set(item, (observedCounts.get(item) ?? 0) + 1)
-    }
-  }
-
-  const getBestRarity = useCallback((items: string[]): Rarity => {
+  const getBestRarity = useCallback((drops: Drop[]): Rarity => {
     let best = 0
-    for (const item of items) {
-      const idx = getRarityIdx(item)
+    for (const { rarity } of drops) {
+      const idx = getRarityIdx(rarity)
       if (idx > best) best = idx
     }
     return RARITY_ORDER[best]
@@ -149,76 +178,28 @@ const App = () => {
 
     setIsAnimating(true)
     setDropKey((k) => k + 1)
-    setAttempts((a) => a + 1)
-
-    let chestType: ChestType = activeChest
-
-    if (fragments >= EPIC_CHEST_FRAGMENTS) {
-      chestType = "epic"
-      setFragments((f) => f - EPIC_CHEST_FRAGMENTS)
-    } else if (fragments >= RARE_CHEST_FRAGMENTS) {
-      chestType = "rare"
-      setFragments((f) => f - RARE_CHEST_FRAGMENTS)
-    } else if (activeChest === "normal") {
-      const upgradeRoll = Math.random()
-      if (upgradeRoll < 0.005) {
-        chestType = "epic"
-      } else if (upgradeRoll < 0.035) {
-        chestType = "rare"
-      }
-    }
-    setEffectiveChest(chestType)
-
-    let multiplier = dropMultiplier
-    if (x2RollsLeft > 0) {
-      multiplier = Math.max(multiplier, 2)
-      setX2RollsLeft((r) => r - 1)
-    }
-
-    const newTotalRolls = totalRollsForEvent + 1
-    setTotalRollsForEvent(newTotalRolls)
-    if (newTotalRolls >= nextX2Threshold && x2RollsLeft <= 0) {
-      const duration = 3 + Math.floor(Math.random() * 3)
-      setX2RollsLeft(duration)
-      setNextX2Threshold(newTotalRolls + 30 + Math.floor(Math.random() * 31))
-    }
 
-    setFragments((f) => f + 1)
+    const opening = openChest(engine, getActiveEventModifiers(timedEvents, getNow()))
+    const banner = getActiveBanner(featuredBanners, getNow())?.banner
+    const { chestType, multiplier, rarityBoost } = opening
 
-    const rarityBoost = hotStreakRolls > 0 ? 1.5 : 1
-    if (hotStreakRolls > 0) setHotStreakRolls((h) => h - 1)
-
-    const intensity = 1 + Math.random() * 3
+    const intensity = rng.range(1, 4)
     setShakeIntensity(intensity)
     setIsShaking(true)
 
-    const shakeDuration = 500 + Math.random() * 300
+    const shakeDuration = rng.range(500, 800)
 
     const shakeTimeout = setTimeout(() => {
       setIsShaking(false)
 
-      const items = getLoots({ chestType, multiplier, rarityBoost })
-      computeObservedDropRates(items)
+      const drops = getLoots({ chestType, multiplier, rarityBoost, banner })
+      recordDrops(drops, opening)
+      addToInventory(drops, chestType)
 
-      const sorted = [...items].sort((a, b) => getRarityIdx(a) - getRarityIdx(b))
+      const sorted = [...drops].sort((a, b) => getRarityIdx(a.rarity) - getRarityIdx(b.rarity))
       const bestRarity = getBestRarity(sorted)
       const bestIdx = getRarityIdx(bestRarity)
 
-      if (bestIdx >= 2) {
-        setStreakRare(0)
-      } else {
-        setStreakRare((s) => s + items.length)
-      }
-      if (bestIdx >= 3) {
-        setStreakEpic(0)
-      } else {
-        setStreakEpic((s) => s + items.length)
-      }
-
-      if (bestIdx >= 2) {
-        setHotStreakRolls(2 + Math.floor(Math.random() * 2))
-      }
-
       if (chestRef.current) {
         chestRef.current.classList.remove("chest-bounce")
         void chestRef.current.offsetWidth
@@ -226,22 +207,23 @@ const App = () => {
       }
 
       let cumulativeDelay = 0
-      sorted.forEach((item, i) => {
-        const delay = i === 0 ? 100 : getRevealDelay(item)
+      sorted.forEach((drop, i) => {
+        const rarity = drop.rarity as Rarity
+        const delay = i === 0 ? 100 : getRevealDelay(rarity)
         cumulativeDelay += delay
         const isBest = i === sorted.length - 1 && bestIdx >= 2
-        const isRarePlus = getRarityIdx(item) >= 2
+        const isRarePlus = getRarityIdx(rarity) >= 2
 
         const t = setTimeout(() => {
-          setRevealedDrops((prev) => [...prev, { item, isBest }])
+          setRevealedDrops((prev) => [...prev, { drop, isBest }])
 
           if (isRarePlus) {
-            setTitleFlash(item as Rarity)
+            setTitleFlash(rarity)
           }
 
           if (isBest) {
-            setParticles({ rarity: item as Rarity, items: generateParticles(item as Rarity) })
-            setAnnouncement(item as Rarity)
+            setParticles({ rarity, items: generateParticles(rarity) })
+            setAnnouncement(rarity)
           }
         }, cumulativeDelay)
 
@@ -257,22 +239,21 @@ const App = () => {
     revealTimeoutsRef.current.push(shakeTimeout)
   }
 
-  const totalObserved = Array.from(observedCounts.values()).reduce((a, b) => a + b, 0)
-  const displayChest = isAnimating ? effectiveChest : activeChest
-  const chestClassName = displayChest === "rare" ? "chest-rare" : displayChest === "epic" ? "chest-epic" : ""
-
-  const fragmentProgress =
-    fragments >= EPIC_CHEST_FRAGMENTS
-      ? 1
-      : fragments >= RARE_CHEST_FRAGMENTS
-        ? (fragments - RARE_CHEST_FRAGMENTS) / (EPIC_CHEST_FRAGMENTS - RARE_CHEST_FRAGMENTS)
-        : fragments / RARE_CHEST_FRAGMENTS
-  const fragmentLabel =
-    fragments >= EPIC_CHEST_FRAGMENTS
-      ? "EPIC READY"
-      : fragments >= RARE_CHEST_FRAGMENTS
-        ? `${fragments}/${EPIC_CHEST_FRAGMENTS}`
-        : `${fragments}/${RARE_CHEST_FRAGMENTS}`
+  const clearReveal = () => {
+    setRevealedDrops([])
+    setAnnouncement(null)
+    setParticles(null)
+    setDropKey((k) => k + 1)
+  }
+
+  const totalObserved = Object.values(observedCounts).reduce((a, b) => a + b, 0)
+  const totalExpected = Object.values(expectedCounts).reduce((a, b) => a + b, 0)
+  const totalCrafted = Object.values(craftedCounts).reduce((a, b) => a + b, 0)
+  const sortedObservedItems = Object.entries(observedItems).sort(
+    ([, a], [, b]) => getRarityIdx(b.rarity) - getRarityIdx(a.rarity) || b.count - a.count,
+  )
+  const displayChest = isAnimating ? effectiveChest : requestedChest
+  const displayChestConfig = chests[displayChest] ?? chests.normal
 
   const getItemEmphasisClass = (rarity: string, isBest: boolean) => {
     const classes = []
@@ -320,30 +301,7 @@ const App = () => {
         ──┘
       </div>
 
-      {(activeChest !== "normal" || dropMultiplier > 1 || x2RollsLeft > 0) && (
-        <div
-          className="event-banner"
-          style={{
-            borderColor:
-              activeChest === "epic"
-                ? "var(--color-epic)"
-                : activeChest === "rare"
-                  ? "var(--color-rare)"
-                  : "var(--color-legendary)",
-            color:
-              activeChest === "epic"
-                ? "var(--color-epic)"
-                : activeChest === "rare"
-                  ? "var(--color-rare)"
-                  : "var(--color-legendary)",
-          }}
-        >
-          {activeChest !== "normal" && `${activeChest.toUpperCase()} CHEST`}
-          {activeChest !== "normal" && (dropMultiplier > 1 || x2RollsLeft > 0) && " + "}
-          {x2RollsLeft > 0 && `x2 EVENT (${x2RollsLeft})`}
-          {x2RollsLeft <= 0 && dropMultiplier > 1 && `x${dropMultiplier} DROPS`}
-        </div>
-      )}
+      <EventBanner />
 
       <div className="relative z-10 flex min-h-svh flex-col items-center justify-center px-6">
         <div className="text-center mb-10">
@@ -387,12 +345,7 @@ const App = () => {
               style={{ background: "var(--bg-panel)" }}
             >
               <div className="flex flex-col items-center gap-4">
-                <div className={`chest-icon ${chestClassName}`}>
-                  <div className="chest-lid" />
-                  <div className="chest-body">
-                    <div className="chest-lock" />
-                  </div>
-                </div>
+                <ChestIcon chest={displayChestConfig} />
                 <span
                   className="tracking-widest uppercase"
                   style={{ fontFamily: "var(--font-pixel)", fontSize: "10px", color: "var(--color-legendary)" }}
@@ -454,32 +407,16 @@ const App = () => {
             )}
           </div>
 
-          <div className="flex items-center gap-2 mb-1" style={{ width: "200px" }}>
-            <div
-              className="flex-1 h-2 relative"
-              style={{ background: "var(--bg-dark)", border: "1px solid var(--border-dim)" }}
-            >
-              <div
-                className="h-full transition-all duration-300"
-                style={{
-                  width: `${Math.min(fragmentProgress * 100, 100)}%`,
-                  background: fragments >= RARE_CHEST_FRAGMENTS ? "var(--color-epic)" : "var(--color-rare)",
-                  opacity: 0.8,
-                }}
-              />
-            </div>
-            <span
-              style={{
-                fontFamily: "var(--font-mono)",
-                fontSize: "14px",
-                color: fragments >= RARE_CHEST_FRAGMENTS ? "var(--color-epic)" : "var(--border-dim)",
-                minWidth: "60px",
-              }}
-            >
-              {fragmentLabel}
-            </span>
+          <div className="streak-counters mb-1">
+            {getPityProgress(displayChest).map((rule) => (
+              <span key={rule.rarity} className={rule.remaining <= 10 ? "streak-hot" : ""}>
+                <span className="capitalize">{rule.rarity}</span>+ pity in {rule.remaining}
+              </span>
+            ))}
           </div>
 
+          <ChestKeys chests={chests} engine={engine} disabled={isAnimating} />
+
           <div className="absolute top-full left-1/2 -translate-x-1/2 w-[520px] flex flex-col items-center pt-4">
             {revealedDrops.length > 0 && (
               <div key={dropKey} className="flex flex-col items-center gap-3">
@@ -500,21 +437,38 @@ const App = () => {
                 )}
 
                 <div className="flex flex-wrap justify-center gap-2 max-w-md relative">
-                  {revealedDrops.map(({ item, isBest }, i) => (
+                  {revealedDrops.map(({ drop, isBest }, i) => (
                     <div
                       key={`${dropKey}-${
                         // biome-ignore lint/suspicious/noArrayIndexKey: keyed by dropKey
                         i
                       }`}
-                      className={`drop-item px-3 py-1.5 pixel-border ${getRarityClass(item)} ${getGlowClass(item)} ${getItemEmphasisClass(item, isBest)} relative`}
+                      className={`drop-item px-3 py-1.5 pixel-border ${getRarityClass(drop.rarity)} ${getGlowClass(drop.rarity)} ${getItemEmphasisClass(drop.rarity, isBest)} relative`}
                       style={{
                         background: "var(--bg-panel)",
                         fontFamily: "var(--font-display)",
                         fontSize: "14px",
                       }}
                     >
-                      <span className="mr-1">{RARITY_ICONS[item as Rarity]}</span>
-                      <span className="capitalize">{item}</span>
+                      {ITEM_CATALOG[drop.item] ? (
+                        <PixelIcon name={ITEM_CATALOG[drop.item].icon} className="mr-1.5" />
+                      ) : (
+                        <span className="mr-1">{RARITY_ICONS[drop.rarity as Rarity]}</span>
+                      )}
+                      <span>{getItemName(drop.item)}</span>
+                      <span className="drop-item-rarity">{drop.rarity}</span>
+                      {drop.pity && <span className="drop-item-rarity">· pity</span>}
+                      {drop.guaranteed && <span className="drop-item-rarity">· guaranteed</span>}
+                      {drop.featured && <span className="drop-item-rarity">· featured</span>}
+                      {ITEM_CATALOG[drop.item] && (
+                        <span className="item-tooltip" role="tooltip">
+                          <span className={`item-tooltip-name ${getRarityClass(drop.rarity)}`}>
+                            {ITEM_CATALOG[drop.item].name}
+                          </span>
+                          <span className="item-tooltip-desc">{ITEM_CATALOG[drop.item].description}</span>
+                          <span className="item-tooltip-tags">{ITEM_CATALOG[drop.item].tags.join(" · ")}</span>
+                        </span>
+                      )}
 
                       {isBest && particles && (
                         <div className="particle-container">
@@ -573,44 +527,63 @@ const App = () => {
             </h3>
           </div>
           <div className="px-3 py-2">
-            {Array.from(observedCounts.entries()).map(([key, value]) => {
+            {Object.entries(observedCounts).map(([key, value]) => {
               const pct = toPercentage(value, totalObserved)
+              const expectedPct = toPercentage(expectedCounts[key] ?? 0, totalExpected)
+              const interval = wilsonInterval(value, totalObserved)
+              const isOutOfRange =
+                totalExpected > 0 && (expectedPct < interval.low * 100 || expectedPct > interval.high * 100)
               return (
                 <div
                   key={key}
-                  className="flex items-center justify-between py-1 border-b"
+                  className="py-1 border-b"
                   style={{ borderColor: "color-mix(in srgb, var(--border-dim) 40%, transparent)" }}
                 >
-                  <div className="flex items-center gap-2">
-                    <span
-                      className={`${getRarityClass(key)} ${getGlowClass(key)}`}
-                      style={{ fontFamily: "var(--font-display)", fontSize: "14px" }}
-                    >
-                      {RARITY_ICONS[key as Rarity]}
-                    </span>
-                    <span
-                      className={`capitalize ${getRarityClass(key)}`}
-                      style={{ fontFamily: "var(--font-display)", fontSize: "14px" }}
-                    >
-                      {key}
-                    </span>
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                      <span
+                        className={`${getRarityClass(key)} ${getGlowClass(key)}`}
+                        style={{ fontFamily: "var(--font-display)", fontSize: "14px" }}
+                      >
+                        {RARITY_ICONS[key as Rarity]}
+                      </span>
+                      <span
+                        className={`capitalize ${getRarityClass(key)}`}
+                        style={{ fontFamily: "var(--font-display)", fontSize: "14px" }}
+                      >
+                        {key}
+                      </span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <span
+                        className={getRarityClass(key)}
+                        style={{ fontFamily: "var(--font-mono)", fontSize: "18px" }}
+                      >
+                        {value}
+                      </span>
+                      <span
+                        style={{
+                          fontFamily: "var(--font-mono)",
+                          fontSize: "16px",
+                          color: "var(--border-glow)",
+                          width: "52px",
+                          textAlign: "right",
+                        }}
+                      >
+                        {count > 0 ? `${pct.toFixed(1)}%` : "—"}
+                      </span>
+                    </div>
                   </div>
-                  <div className="flex items-center gap-2">
-                    <span className={getRarityClass(key)} style={{ fontFamily: "var(--font-mono)", fontSize: "18px" }}>
-                      {value}
-                    </span>
-                    <span
-                      style={{
-                        fontFamily: "var(--font-mono)",
-                        fontSize: "16px",
-                        color: "var(--border-glow)",
-                        width: "52px",
-                        textAlign: "right",
-                      }}
+                  {totalExpected > 0 && (
+                    <div
+                      className={`observed-rate ${isOutOfRange ? "observed-rate-out" : ""}`}
+                      title="Expected rate from the odds of every roll, and the 95% Wilson interval of the observed rate"
                     >
-                      {count > 0 ? `${pct.toFixed(1)}%` : "—"}
-                    </span>
-                  </div>
+                      exp {formatRate(expectedPct)} · CI {formatRate(interval.low * 100)}–
+                      {formatRate(interval.high * 100)}
+                      {isOutOfRange && " ⚠"}
+                    </div>
+                  )}
                 </div>
               )
             })}
@@ -620,83 +593,178 @@ const App = () => {
               Total: {totalObserved}
             </span>
           </div>
+          {sortedObservedItems.length > 0 && (
+            <div className="observed-items px-3 py-2 border-t-2" style={{ borderColor: "var(--border-dim)" }}>
+              {sortedObservedItems.map(([item, { rarity, count: itemCount }]) => (
+                <div key={item} className="flex items-center justify-between">
+                  <span className={`flex items-center gap-1.5 ${getRarityClass(rarity)}`}>
+                    {ITEM_CATALOG[item] ? (
+                      <PixelIcon name={ITEM_CATALOG[item].icon} size={12} />
+                    ) : (
+                      RARITY_ICONS[rarity as Rarity]
+                    )}
+                    {getItemName(item)}
+                  </span>
+                  <span style={{ color: "var(--border-glow)" }}>
+                    <span className="capitalize">{rarity}</span> ×{itemCount}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+          {totalCrafted > 0 && (
+            <>
+              <div className="px-3 py-2 border-t-2" style={{ borderColor: "var(--border-dim)" }}>
+                <h3
+                  className="tracking-widest uppercase text-center"
+                  style={{ fontFamily: "var(--font-display)", fontSize: "12px", color: "#c8c8ff" }}
+                >
+                  ◈ Crafted ◈
+                </h3>
+              </div>
+              <div className="observed-items px-3 py-2">
+                {RARITY_ORDER.filter((rarity) => craftedCounts[rarity] > 0).map((rarity) => (
+                  <div key={rarity} className="flex items-center justify-between">
+                    <span className={`flex items-center gap-1.5 capitalize ${getRarityClass(rarity)}`}>
+                      {RARITY_ICONS[rarity]} {rarity}
+                    </span>
+                    <span style={{ color: "var(--border-glow)" }}>×{craftedCounts[rarity]}</span>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
         </div>
       </div>
 
       {showDebug && (
         <div className="debug-panel">
           <h4>⚙ DEV TOOLS [F2]</h4>
+          <ChestPicker chests={chests} value={activeChest} onChange={(chest) => applyEvent({ chest })} />
+          <div style={{ height: "8px" }} />
           <button
             type="button"
-            className={`debug-btn ${activeChest === "normal" ? "active" : ""}`}
-            onClick={() => setActiveChest("normal")}
+            className={`debug-btn ${dropMultiplier === 1 ? "active" : ""}`}
+            onClick={() => applyEvent({ multiplier: 1 })}
           >
-            Normal Chest
+            x1 Drops (normal)
           </button>
           <button
             type="button"
-            className={`debug-btn ${activeChest === "rare" ? "active" : ""}`}
-            onClick={() => setActiveChest("rare")}
+            className={`debug-btn ${dropMultiplier === 2 ? "active" : ""}`}
+            onClick={() => applyEvent({ multiplier: 2 })}
           >
-            Rare Chest (no common/uncommon)
+            x2 Drops Event
           </button>
           <button
             type="button"
-            className={`debug-btn ${activeChest === "epic" ? "active" : ""}`}
-            onClick={() => setActiveChest("epic")}
+            className={`debug-btn ${dropMultiplier === 3 ? "active" : ""}`}
+            onClick={() => applyEvent({ multiplier: 3 })}
           >
-            Epic Chest (epic+ only)
+            x3 Drops Event
           </button>
           <div style={{ height: "8px" }} />
           <button
             type="button"
-            className={`debug-btn ${dropMultiplier === 1 ? "active" : ""}`}
-            onClick={() => setDropMultiplier(1)}
+            className="debug-btn"
+            onClick={() => {
+              resetSession()
+              clearReveal()
+            }}
           >
-            x1 Drops (normal)
+            Reset Stats
+          </button>
+          <SeedControls
+            onSeed={(seed) => {
+              setSeed(seed)
+              clearReveal()
+            }}
+          />
+          <div style={{ height: "8px" }} />
+          <ClockControls />
+          <div style={{ height: "8px" }} />
+          <button
+            type="button"
+            className={`debug-btn ${showSimulation ? "active" : ""}`}
+            onClick={() => setShowSimulation((v) => !v)}
+          >
+            Simulation
           </button>
           <button
             type="button"
-            className={`debug-btn ${dropMultiplier === 2 ? "active" : ""}`}
-            onClick={() => setDropMultiplier(2)}
+            className={`debug-btn ${showOdds ? "active" : ""}`}
+            onClick={() => setShowOdds((v) => !v)}
           >
-            x2 Drops Event
+            Odds Calculator
           </button>
           <button
             type="button"
-            className={`debug-btn ${dropMultiplier === 3 ? "active" : ""}`}
-            onClick={() => setDropMultiplier(3)}
+            className={`debug-btn ${showConfig ? "active" : ""}`}
+            onClick={() => setShowConfig((v) => !v)}
           >
-            x3 Drops Event
+            Loot Config
           </button>
-          <div style={{ height: "8px" }} />
           <button
             type="button"
-            className="debug-btn"
-            onClick={() => {
-              setRevealedDrops([])
-              setAttempts(0)
-              setCount(0)
-              setStreakRare(0)
-              setStreakEpic(0)
-              setAnnouncement(null)
-              setParticles(null)
-              setFragments(0)
-              setHotStreakRolls(0)
-              setX2RollsLeft(0)
-              setTotalRollsForEvent(0)
-              setNextX2Threshold(30 + Math.floor(Math.random() * 31))
-              setEffectiveChest("normal")
-              for (const key of observedCounts.keys()) {
-                observedCounts.set(key, 0)
-              }
-              setDropKey((k) => k + 1)
-            }}
+            className={`debug-btn ${showEditor ? "active" : ""}`}
+            onClick={() => setShowEditor((v) => !v)}
           >
-            Reset Stats
+            Loot Editor
+          </button>
+          <button type="button" className="debug-btn" onClick={clearInventory}>
+            Clear Inventory
           </button>
         </div>
       )}
+
+      <div className="tool-dock">
+        <button
+          type="button"
+          className={`dock-btn ${showCollection ? "active" : ""}`}
+          onClick={() => setShowCollection((v) => !v)}
+        >
+          ▤ Collection
+        </button>
+        <button
+          type="button"
+          className={`dock-btn ${showCrafting ? "active" : ""}`}
+          onClick={() => setShowCrafting((v) => !v)}
+        >
+          ⚒ Crafting
+        </button>
+        <button
+          type="button"
+          className={`dock-btn ${showSaves ? "active" : ""}`}
+          onClick={() => setShowSaves((v) => !v)}
+        >
+          ▣ Saves
+        </button>
+        <button
+          type="button"
+          className={`dock-btn ${showHistory ? "active" : ""}`}
+          onClick={() => setShowHistory((v) => !v)}
+        >
+          ☰ History
+        </button>
+        <button
+          type="button"
+          className={`dock-btn ${showDropRates ? "active" : ""}`}
+          onClick={() => setShowDropRates((v) => !v)}
+        >
+          % Drop Rates
+        </button>
+      </div>
+
+      {showCollection && <CollectionPanel onClose={() => setShowCollection(false)} />}
+      {showCrafting && <CraftingPanel engine={engine} onClose={() => setShowCrafting(false)} />}
+      {showSaves && <SavesPanel onClose={() => setShowSaves(false)} />}
+      {showHistory && <HistoryPanel onClose={() => setShowHistory(false)} />}
+      {showDropRates && <DropRatesPanel onClose={() => setShowDropRates(false)} />}
+
+      {showSimulation && <SimulationPanel config={lootConfig} onClose={() => setShowSimulation(false)} />}
+      {showOdds && <OddsPanel config={lootConfig} onClose={() => setShowOdds(false)} />}
+      {showConfig && <ConfigPanel onClose={() => setShowConfig(false)} />}
+      {showEditor && <LootEditorPanel onClose={() => setShowEditor(false)} />}
     </div>
   )
 }
@@ -0,0 +1,21 @@
+import type { FeaturedBanner } from "@/lib/loot/banners.ts"
+
+/** Banner calendar, the first running banner is used when several overlap */
+export const featuredBanners: FeaturedBanner[] = [
+  {
+    id: "dragon-hoard",
+    name: "Dragon's Hoard",
+    schedule: { type: "once", start: Date.UTC(2026, 9, 12), end: Date.UTC(2026, 10, 2) },
+    featured: [
+      { name: "dragon-scale-mail", weight: 1 },
+      { name: "phoenix-feather", weight: 1 },
+    ],
+  },
+  {
+    id: "void-rift",
+    name: "Void Rift",
+    schedule: { type: "once", start: Date.UTC(2026, 10, 16), end: Date.UTC(2026, 10, 30) },
+    featured: [{ name: "void-shard", weight: 1 }],
+    rateUp: 0.75,
+  },
+]
@@ -0,0 +1,45 @@
+import type { ChestConfig, ChestType } from "@/lib/loot/engine.ts"
+
+/**
+ * Chest definitions keyed by chest id. "normal" is the default chest and must stay defined.
+ * Add a chest here (or in a loot config) and it shows up in the picker, odds tools and disclosure.
+ */
+export const CHEST_CONFIGS: Record<ChestType, ChestConfig> = {
+  normal: {
+    name: "Normal Chest",
+    color: "var(--color-legendary)",
+    excludeRarities: [],
+    maxRolls: 10,
+    upgrades: [
+      { chestType: "epic", chance: 0.005 },
+      { chestType: "rare", chance: 0.03 },
+    ],
+  },
+  rare: {
+    name: "Rare Chest",
+    color: "var(--color-rare)",
+    skin: { lid: "#3b82f6", body: "#2563eb", dark: "#1e3a8a", lock: "#93c5fd", glow: "#60a5fa" },
+    excludeRarities: ["common", "uncommon"],
+    maxRolls: 3,
+    fragmentCost: 20,
+    weightOverrides: {
+      rare: 5500,
+      epic: 3000,
+      legendary: 1400,
+      mythic: 100,
+    },
+  },
+  epic: {
+    name: "Epic Chest",
+    color: "var(--color-epic)",
+    skin: { lid: "#8b5cf6", body: "#7c3aed", dark: "#4c1d95", lock: "#c4b5fd", glow: "#c084fc" },
+    excludeRarities: ["common", "uncommon", "rare"],
+    maxRolls: 2,
+    fragmentCost: 50,
+    weightOverrides: {
+      epic: 6500,
+      legendary: 3200,
+      mythic: 300,
+    },
+  },
+}
@@ -0,0 +1,23 @@
+import type { TimedEvent } from "@/lib/loot/events.ts"
+
+/** Event calendar, weekly windows are in UTC */
+export const timedEvents: TimedEvent[] = [
+  {
+    id: "weekend-rush",
+    name: "Weekend Rush",
+    schedule: { type: "weekly", day: 6, startMinute: 0, durationMinutes: 48 * 60 },
+    modifiers: { multiplier: 2 },
+  },
+  {
+    id: "lucky-wednesday",
+    name: "Lucky Wednesday",
+    schedule: { type: "weekly", day: 3, startMinute: 18 * 60, durationMinutes: 4 * 60 },
+    modifiers: { rarityBoost: 1.5 },
+  },
+  {
+    id: "winter-vault",
+    name: "Winter Vault",
+    schedule: { type: "once", start: Date.UTC(2026, 11, 20), end: Date.UTC(2026, 11, 27) },
+    modifiers: { chest: "rare", multiplier: 2 },
+  },
+]
@@ -0,0 +1,26 @@
+/**
+ * 8x8 pixel sprites for items.
+ * `#` uses the rarity color, `=` a dimmed rarity color, `+` a highlight, `.` is transparent.
+ */
+export const PIXEL_ICONS = {
+  sword: ["......+#", ".....+#.", "....+#..", "...+#...", "#.+#....", ".##.....", ".##.....", "#..#...."],
+  dagger: ["........", "......+#", ".....+#.", "....+#..", ".#.+#...", "..##....", "..##....", ".#..#..."],
+  shield: [".######.", "#++====#", "#+====##", "#======#", "#======#", ".#====#.", "..#==#..", "...##..."],
+  bread: ["........", "..####..", ".#++++#.", "#+====##", "#======#", "#======#", ".######.", "........"],
+  map: [".######.", "#+=====#", ".#=##=#.", ".#====#.", ".#=##=#.", ".#====#.", "#=====+#", ".######."],
+  armor: [".##..##.", "#==##==#", "#=+==+=#", ".#====#.", ".#=##=#.", ".#====#.", ".#====#.", ".######."],
+  potion: ["..####..", "...##...", "...##...", "..#++#..", ".#+===#.", ".#====#.", ".#====#.", "..####.."],
+  ring: ["...++...", "..+##+..", "...##...", "..#..#..", ".#....#.", ".#....#.", "..#..#..", "...##..."],
+  wand: [".....+.+", "......#.", ".....#.+", "....#...", "...=....", "..=.....", ".=......", "=......."],
+  helm: ["..####..", ".#++==#.", "#+====##", "#======#", "#=####=#", "#=#..#=#", "#=#..#=#", ".#....#."],
+  crystal: ["...##...", "..#+=#..", ".#+===#.", "#+=====#", ".#====#.", "..#==#..", "...##...", "........"],
+  cloak: ["..####..", ".#=++=#.", ".#====#.", "#=====##", "#======#", "#==#===#", "#=#=#==#", "##...###"],
+  hammer: [".######.", "#++====#", ".######.", "...##...", "...##...", "...==...", "...==...", "...==..."],
+  tome: [".######.", "#+=====#", "#+=##==#", "#+=====#", "#+=##==#", "#+=====#", "#+=====#", ".######."],
+  feather: ["......##", ".....#+#", "....#+=#", "...#+=#.", "..#+=#..", "..#=#...", ".#.#....", "#......."],
+  crown: ["........", "#..##..#", "##.##.##", "########", "#+=++=+#", "#======#", "########", "........"],
+  shard: ["....#...", "...#+...", "...#+#..", "..#+=#..", "..#==#..", ".#+==#..", "..#=#...", "...#...."],
+  relic: ["...##...", "...##...", "########", ".#++==#.", "..#==#..", ".#=##=#.", "##....##", "........"],
+} as const satisfies Record<string, readonly string[]>
+
+export type PixelIconName = keyof typeof PIXEL_ICONS
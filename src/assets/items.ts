@@ -0,0 +1,189 @@
+import type { PixelIconName } from "@/assets/icons.ts"
+import type { Rarity } from "@/lib/loot/rarity.ts"
+
+export type ItemDefinition = {
+  /** Stable id, referenced by item pool entries */
+  id: string
+  /** Display name */
+  name: string
+  rarity: Rarity
+  icon: PixelIconName
+  /** Flavor text shown in tooltips */
+  description: string
+  tags: string[]
+}
+
+export type ItemCatalog = Record<string, ItemDefinition>
+
+const ITEMS: ItemDefinition[] = [
+  {
+    id: "rusty-dagger",
+    name: "Rusty Dagger",
+    rarity: "common",
+    icon: "dagger",
+    description: "More tetanus than edge.",
+    tags: ["weapon", "blade"],
+  },
+  {
+    id: "wooden-shield",
+    name: "Wooden Shield",
+    rarity: "common",
+    icon: "shield",
+    description: "Stops arrows. Sometimes.",
+    tags: ["armor", "shield"],
+  },
+  {
+    id: "bread-loaf",
+    name: "Bread Loaf",
+    rarity: "common",
+    icon: "bread",
+    description: "Baked three adventures ago.",
+    tags: ["consumable", "food"],
+  },
+  {
+    id: "torn-map",
+    name: "Torn Map",
+    rarity: "common",
+    icon: "map",
+    description: "The X was on the missing half.",
+    tags: ["quest"],
+  },
+  {
+    id: "iron-sword",
+    name: "Iron Sword",
+    rarity: "uncommon",
+    icon: "sword",
+    description: "Honest steel for honest work.",
+    tags: ["weapon", "blade"],
+  },
+  {
+    id: "leather-armor",
+    name: "Leather Armor",
+    rarity: "uncommon",
+    icon: "armor",
+    description: "Creaks loudly when sneaking.",
+    tags: ["armor"],
+  },
+  {
+    id: "healing-potion",
+    name: "Healing Potion",
+    rarity: "uncommon",
+    icon: "potion",
+    description: "Tastes like cherries and regret.",
+    tags: ["consumable", "potion"],
+  },
+  {
+    id: "silver-ring",
+    name: "Silver Ring",
+    rarity: "uncommon",
+    icon: "ring",
+    description: "Polished by a dozen previous owners.",
+    tags: ["accessory"],
+  },
+  {
+    id: "steel-longsword",
+    name: "Steel Longsword",
+    rarity: "rare",
+    icon: "sword",
+    description: "Balanced for a knight's hand.",
+    tags: ["weapon", "blade"],
+  },
+  {
+    id: "frost-wand",
+    name: "Frost Wand",
+    rarity: "rare",
+    icon: "wand",
+    description: "Always cold to the touch.",
+    tags: ["weapon", "magic", "ice"],
+  },
+  {
+    id: "knights-helm",
+    name: "Knight's Helm",
+    rarity: "rare",
+    icon: "helm",
+    description: "The visor sticks in the rain.",
+    tags: ["armor"],
+  },
+  {
+    id: "mana-crystal",
+    name: "Mana Crystal",
+    rarity: "rare",
+    icon: "crystal",
+    description: "Hums faintly at night.",
+    tags: ["material", "magic"],
+  },
+  {
+    id: "shadow-cloak",
+    name: "Shadow Cloak",
+    rarity: "epic",
+    icon: "cloak",
+    description: "Casts no shadow of its own.",
+    tags: ["armor", "stealth"],
+  },
+  {
+    id: "thunder-hammer",
+    name: "Thunder Hammer",
+    rarity: "epic",
+    icon: "hammer",
+    description: "Every swing arrives before its sound.",
+    tags: ["weapon", "lightning"],
+  },
+  {
+    id: "arcane-tome",
+    name: "Arcane Tome",
+    rarity: "epic",
+    icon: "tome",
+    description: "Some pages read you back.",
+    tags: ["magic", "book"],
+  },
+  {
+    id: "phoenix-feather",
+    name: "Phoenix Feather",
+    rarity: "epic",
+    icon: "feather",
+    description: "Warm, and slightly on fire.",
+    tags: ["material", "fire"],
+  },
+  {
+    id: "ember-blade",
+    name: "Ember Blade",
+    rarity: "legendary",
+    icon: "sword",
+    description: "Forged in a dying star's last ember.",
+    tags: ["weapon", "blade", "fire"],
+  },
+  {
+    id: "dragon-scale-mail",
+    name: "Dragon Scale Mail",
+    rarity: "legendary",
+    icon: "armor",
+    description: "The dragon was not consulted.",
+    tags: ["armor", "dragon"],
+  },
+  {
+    id: "crown-of-ages",
+    name: "Crown of Ages",
+    rarity: "legendary",
+    icon: "crown",
+    description: "Every king who wore it is still arguing inside.",
+    tags: ["accessory"],
+  },
+  {
+    id: "void-shard",
+    name: "Void Shard",
+    rarity: "mythic",
+    icon: "shard",
+    description: "A splinter of the space between worlds.",
+    tags: ["material", "void"],
+  },
+  {
+    id: "starforged-relic",
+    name: "Starforged Relic",
+    rarity: "mythic",
+    icon: "relic",
+    description: "Older than the sky it fell from.",
+    tags: ["relic"],
+  },
+]
+
+export const ITEM_CATALOG: ItemCatalog = Object.fromEntries(ITEMS.map((item) => [item.id, item]))
@@ -1,47 +1,155 @@
+import type { ChestOverride, ChestType } from "@/lib/loot/engine.ts"
+
 export type LootEntry = {
-  name: string;
-  weight: number;
-};
+  /** Rarity name in the root pool, catalog item id in item pools */
+  name: string
+  weight: number
+  /** Name of a pool rolled when this entry hits, e.g. a rarity feeding its item table */
+  pool?: string
+}
+
+/** Bad-luck protection of an item pool: owned items get rarer until the whole pool is owned */
+export type DuplicateProtection = {
+  /** Multiplier applied to the weight of owned items (0 excludes them) */
+  ownedWeight: number
+}
 
 export type LootPool = {
-  name: string;
-  entries: LootEntry[];
-};
+  name: string
+  entries: LootEntry[]
+  duplicateProtection?: DuplicateProtection
+}
+
+/** Hard pity: guarantees a `rarity`+ drop at the latest on the `within`-th roll without one */
+export type PityRule = {
+  rarity: string
+  within: number
+}
+
+/**
+ * How a tier weight grows once soft pity kicks in, from the n-th roll past the threshold (n >= 1).
+ * - linear: weight × (1 + step × n)
+ * - exponential: weight × base^n
+ * - steps: weight × the multiplier of the last step whose `after` (dry rolls) is reached
+ */
+export type SoftPityCurve =
+  | { type: "linear"; step: number }
+  | { type: "exponential"; base: number }
+  | { type: "steps"; table: { after: number; multiplier: number }[] }
+
+/** Soft pity: after `start` rolls without a `rarity`+ drop, that tier weight ramps up along `curve` */
+export type SoftPityRule = {
+  rarity: string
+  start: number
+  curve: SoftPityCurve
+}
 
+/** The first pool is the root (rarity) pool, the others are only reached through `LootEntry.pool` */
 export type LootConfig = {
-  pools: LootPool[];
-};
+  pools: LootPool[]
+  /** Pity rules, counted separately for each chest type */
+  pity?: PityRule[]
+  /** Soft pity ramps, sharing the pity dry-roll counters */
+  softPity?: SoftPityRule[]
+  /** Chest overrides and additional chests, merged over CHEST_CONFIGS (see resolveChests) */
+  chests?: Record<ChestType, ChestOverride>
+}
 
 export const lootConfig: LootConfig = {
+  pity: [
+    { rarity: "epic", within: 80 },
+    { rarity: "legendary", within: 200 },
+  ],
+  softPity: [
+    { rarity: "epic", start: 60, curve: { type: "linear", step: 0.25 } },
+    { rarity: "legendary", start: 150, curve: { type: "exponential", base: 1.05 } },
+  ],
   pools: [
     {
       name: "rarity",
       entries: [
         {
           name: "common",
-          weight: 6000
+          weight: 6000,
+          pool: "common-items",
         },
         {
           name: "uncommon",
-          weight: 2500
+          weight: 2500,
+          pool: "uncommon-items",
         },
         {
           name: "rare",
-          weight: 1000
+          weight: 1000,
+          pool: "rare-items",
         },
         {
           name: "epic",
-          weight: 400
+          weight: 400,
+          pool: "epic-items",
         },
         {
           name: "legendary",
-          weight: 90
+          weight: 90,
+          pool: "legendary-items",
         },
         {
           name: "mythic",
-          weight: 10
-        }
-      ]
-    }
-  ]
-};
\ No newline at end of file
+          weight: 10,
+          pool: "mythic-items",
+        },
+      ],
+    },
+    {
+      name: "common-items",
+      entries: [
+        { name: "rusty-dagger", weight: 40 },
+        { name: "wooden-shield", weight: 30 },
+        { name: "bread-loaf", weight: 20 },
+        { name: "torn-map", weight: 10 },
+      ],
+    },
+    {
+      name: "uncommon-items",
+      entries: [
+        { name: "iron-sword", weight: 35 },
+        { name: "leather-armor", weight: 30 },
+        { name: "healing-potion", weight: 25 },
+        { name: "silver-ring", weight: 10 },
+      ],
+    },
+    {
+      name: "rare-items",
+      entries: [
+        { name: "steel-longsword", weight: 30 },
+        { name: "frost-wand", weight: 30 },
+        { name: "knights-helm", weight: 25 },
+        { name: "mana-crystal", weight: 15 },
+      ],
+    },
+    {
+      name: "epic-items",
+      entries: [
+        { name: "shadow-cloak", weight: 30 },
+        { name: "thunder-hammer", weight: 30 },
+        { name: "arcane-tome", weight: 25 },
+        { name: "phoenix-feather", weight: 15 },
+      ],
+    },
+    {
+      name: "legendary-items",
+      entries: [
+        { name: "ember-blade", weight: 40 },
+        { name: "dragon-scale-mail", weight: 35 },
+        { name: "crown-of-ages", weight: 25 },
+      ],
+    },
+    {
+      name: "mythic-items",
+      entries: [
+        { name: "void-shard", weight: 60 },
+        { name: "starforged-relic", weight: 40 },
+      ],
+    },
+  ],
+}
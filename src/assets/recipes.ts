@@ -0,0 +1,10 @@
+import type { CraftingRecipe } from "@/lib/loot/crafting.ts"
+
+/** Crafting station recipes, each fusing spare copies into a roll of the next tier */
+export const CRAFTING_RECIPES: CraftingRecipe[] = [
+  { id: "common-to-uncommon", input: "common", count: 5, output: "uncommon", chance: 0.9 },
+  { id: "uncommon-to-rare", input: "uncommon", count: 5, output: "rare", chance: 0.75 },
+  { id: "rare-to-epic", input: "rare", count: 5, output: "epic", chance: 0.5 },
+  { id: "epic-to-legendary", input: "epic", count: 4, output: "legendary", chance: 0.35 },
+  { id: "legendary-to-mythic", input: "legendary", count: 3, output: "mythic", chance: 0.2 },
+]
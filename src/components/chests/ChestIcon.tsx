@@ -0,0 +1,31 @@
+import type { CSSProperties } from "react"
+import { cn } from "@/lib/cn.ts"
+import type { ChestConfig } from "@/lib/loot/engine.ts"
+
+interface ChestIconProps {
+  chest: ChestConfig
+  className?: string
+}
+
+/**
+ * CSS chest sprite, tinted with the chest skin (the plain wooden chest without one).
+ */
+export const ChestIcon = ({ chest, className }: Readonly<ChestIconProps>) => {
+  const { skin } = chest
+  const style = skin && {
+    "--chest-lid": skin.lid,
+    "--chest-body": skin.body,
+    "--chest-dark": skin.dark,
+    "--chest-lock": skin.lock,
+    "--chest-glow": skin.glow,
+  }
+
+  return (
+    <div className={cn("chest-icon", skin && "chest-skinned", className)} style={style as CSSProperties | undefined}>
+      <div className="chest-lid" />
+      <div className="chest-body">
+        <div className="chest-lock" />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,95 @@
+import { type ChestConfig, type ChestType, getFragmentProgress, type LootEngine } from "@/lib/loot/engine.ts"
+import { useSessionStore } from "@/stores/useSessionStore.ts"
+
+interface ChestKeysProps {
+  chests: Record<ChestType, ChestConfig>
+  engine: Pick<LootEngine, "getFragmentCosts">
+  /** Locks buying and picking while a chest is opening */
+  disabled?: boolean
+}
+
+/**
+ * Fragment bar and chest inventory: fragments are traded for keys on demand, stored keys are picked to open
+ * their chest instead of the event one.
+ */
+export const ChestKeys = ({ chests, engine, disabled = false }: Readonly<ChestKeysProps>) => {
+  const fragments = useSessionStore((s) => s.fragments)
+  const chestKeys = useSessionStore((s) => s.chestKeys)
+  const selectedKey = useSessionStore((s) => s.selectedKey)
+  const buyChestKey = useSessionStore((s) => s.buyChestKey)
+  const selectKey = useSessionStore((s) => s.selectKey)
+
+  const costs = engine.getFragmentCosts()
+  if (costs.length === 0) return null
+
+  const progress = getFragmentProgress(fragments, chests)
+  const target = progress.next ?? progress.ready
+  const color = target ? chests[target.chestType].color : "var(--border-dim)"
+  const stored = Object.entries(chestKeys).filter(([chestType, count]) => count > 0 && chests[chestType])
+
+  return (
+    <div className="chest-keys mb-1">
+      <div className="flex items-center gap-2" style={{ width: "200px" }}>
+        <div
+          className="flex-1 h-2 relative"
+          style={{ background: "var(--bg-dark)", border: "1px solid var(--border-dim)" }}
+        >
+          <div
+            className="h-full transition-all duration-300"
+            style={{ width: `${Math.min(progress.progress * 100, 100)}%`, background: color, opacity: 0.8 }}
+          />
+        </div>
+        <span
+          style={{
+            fontFamily: "var(--font-mono)",
+            fontSize: "14px",
+            color: progress.ready ? color : "var(--border-dim)",
+            minWidth: "60px",
+          }}
+        >
+          {progress.next ? `${fragments}/${progress.next.cost}` : fragments}
+        </span>
+      </div>
+
+      <div className="chest-keys-row">
+        {[...costs].reverse().map(({ chestType, cost }) => (
+          <button
+            key={chestType}
+            type="button"
+            className="chest-key"
+            style={{ color: chests[chestType].color }}
+            disabled={disabled || fragments < cost}
+            onClick={() => buyChestKey(engine, chestType)}
+          >
+            + {chests[chestType].name} key ({cost})
+          </button>
+        ))}
+      </div>
+
+      {stored.length > 0 && (
+        <div className="chest-keys-row">
+          <button
+            type="button"
+            className={`chest-key ${selectedKey === null ? "active" : ""}`}
+            disabled={disabled}
+            onClick={() => selectKey(null)}
+          >
+            Event chest
+          </button>
+          {stored.map(([chestType, count]) => (
+            <button
+              key={chestType}
+              type="button"
+              className={`chest-key ${selectedKey === chestType ? "active" : ""}`}
+              style={{ color: chests[chestType].color }}
+              disabled={disabled}
+              onClick={() => selectKey(chestType)}
+            >
+              {chests[chestType].name} ×{count}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
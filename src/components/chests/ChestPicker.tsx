@@ -0,0 +1,26 @@
+import type { ChestConfig, ChestType } from "@/lib/loot/engine.ts"
+
+interface ChestPickerProps {
+  chests: Record<ChestType, ChestConfig>
+  value: ChestType
+  onChange: (chestType: ChestType) => void
+}
+
+const describeChest = (chest: ChestConfig) =>
+  chest.excludeRarities.length > 0 ? `${chest.name} (no ${chest.excludeRarities.join("/")})` : chest.name
+
+/**
+ * One button per chest definition, in definition order.
+ */
+export const ChestPicker = ({ chests, value, onChange }: Readonly<ChestPickerProps>) => {
+  return Object.entries(chests).map(([chestType, chest]) => (
+    <button
+      key={chestType}
+      type="button"
+      className={`debug-btn ${value === chestType ? "active" : ""}`}
+      onClick={() => onChange(chestType)}
+    >
+      {describeChest(chest)}
+    </button>
+  ))
+}
@@ -0,0 +1,29 @@
+import type { ReactNode } from "react"
+import { cn } from "@/lib/cn.ts"
+
+interface PanelProps {
+  title: string
+  children: ReactNode
+  onClose?: () => void
+  className?: string
+}
+
+/**
+ * Floating pixel-bordered window used by the tool panels.
+ * Renders a close button when onClose is provided.
+ */
+export const Panel = ({ title, children, onClose, className }: Readonly<PanelProps>) => {
+  return (
+    <div className={cn("tool-panel pixel-border", className)}>
+      <div className="tool-panel-header">
+        <h3>◈ {title} ◈</h3>
+        {onClose && (
+          <button type="button" className="tool-panel-close" onClick={onClose} aria-label={`Close ${title}`}>
+            ×
+          </button>
+        )}
+      </div>
+      <div className="tool-panel-body">{children}</div>
+    </div>
+  )
+}
@@ -0,0 +1,107 @@
+import { type DragEvent, useRef, useState } from "react"
+import { Panel } from "@/components/common/Panel.tsx"
+import { downloadFile } from "@/lib/dom.ts"
+import { parseLootConfig, serializeLootConfig } from "@/lib/loot/config.ts"
+import type { ConfigIssue } from "@/lib/loot/engine.ts"
+import { useConfigStore } from "@/stores/useConfigStore.ts"
+
+interface ConfigPanelProps {
+  onClose: () => void
+}
+
+type ImportStatus = { file: string; issues: ConfigIssue[] } | null
+
+/**
+ * Imports a loot config from a JSON file (drag-and-drop or picker) and exports the active one.
+ * Invalid files are rejected with every issue listed, the active config is left untouched.
+ */
+export const ConfigPanel = ({ onClose }: Readonly<ConfigPanelProps>) => {
+  const config = useConfigStore((s) => s.config)
+  const setConfig = useConfigStore((s) => s.setConfig)
+  const resetConfig = useConfigStore((s) => s.resetConfig)
+  const [status, setStatus] = useState<ImportStatus>(null)
+  const [isDragging, setIsDragging] = useState(false)
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  const importFile = async (file: File) => {
+    const result = parseLootConfig(await file.text())
+    if (result.ok) {
+      setConfig(result.config)
+      setStatus({ file: file.name, issues: [] })
+    } else {
+      setStatus({ file: file.name, issues: result.issues })
+    }
+  }
+
+  const onDrop = (e: DragEvent) => {
+    e.preventDefault()
+    setIsDragging(false)
+    const file = e.dataTransfer.files[0]
+    if (file) void importFile(file)
+  }
+
+  return (
+    <Panel title="Loot Config" onClose={onClose}>
+      <button
+        type="button"
+        className={`config-dropzone ${isDragging ? "active" : ""}`}
+        onClick={() => inputRef.current?.click()}
+        onDragOver={(e) => {
+          e.preventDefault()
+          setIsDragging(true)
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={onDrop}
+      >
+        Drop a config .json here or click to browse
+      </button>
+      <input
+        ref={inputRef}
+        type="file"
+        accept="application/json,.json"
+        hidden
+        onChange={(e) => {
+          const file = e.target.files?.[0]
+          if (file) void importFile(file)
+          e.target.value = ""
+        }}
+      />
+
+      {status && status.issues.length === 0 && <p className="tool-good">✓ Loaded {status.file}</p>}
+      {status && status.issues.length > 0 && (
+        <div className="config-issues">
+          <p className="tool-bad">
+            ✗ {status.file} rejected ({status.issues.length} issue{status.issues.length > 1 ? "s" : ""})
+          </p>
+          <ul>
+            {status.issues.map((issue) => (
+              <li key={`${issue.path}-${issue.message}`}>
+                {issue.path && <code>{issue.path}</code>} {issue.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="tool-controls mt-2">
+        <button
+          type="button"
+          className="debug-btn"
+          onClick={() => downloadFile("pixeldrop-loot-config.json", serializeLootConfig(config), "application/json")}
+        >
+          ⇩ Export JSON
+        </button>
+        <button
+          type="button"
+          className="debug-btn"
+          onClick={() => {
+            resetConfig()
+            setStatus(null)
+          }}
+        >
+          Reset to defaults
+        </button>
+      </div>
+    </Panel>
+  )
+}
@@ -0,0 +1,314 @@
+import { useEffect, useMemo, useState } from "react"
+import { type LootConfig, type LootPool, lootConfig } from "@/assets/pools.ts"
+import { Panel } from "@/components/common/Panel.tsx"
+import { validateLootConfig } from "@/lib/loot/config.ts"
+import {
+  type ChestConfig,
+  type ChestType,
+  createLootEngine,
+  getChestEntries,
+  getPoolSum,
+  POOL_BASE_WEIGHT,
+  resolveChests,
+} from "@/lib/loot/engine.ts"
+import { clamp, toPercentage } from "@/lib/math.ts"
+import { useConfigStore } from "@/stores/useConfigStore.ts"
+import { useInventoryStore } from "@/stores/useInventoryStore.ts"
+
+interface LootEditorPanelProps {
+  onClose: () => void
+}
+
+const withChests = (config: LootConfig): LootConfig => ({ ...config, chests: resolveChests(config) })
+
+const setEntryWeight = (config: LootConfig, poolName: string, entryName: string, weight: number): LootConfig => ({
+  ...config,
+  pools: config.pools.map((pool) =>
+    pool.name === poolName
+      ? { ...pool, entries: pool.entries.map((e) => (e.name === entryName ? { ...e, weight } : e)) }
+      : pool,
+  ),
+})
+
+const updatePool = (config: LootConfig, poolName: string, patch: Partial<LootPool>): LootConfig => ({
+  ...config,
+  pools: config.pools.map((pool) => (pool.name === poolName ? { ...pool, ...patch } : pool)),
+})
+
+const updateChest = (config: LootConfig, type: ChestType, patch: Partial<ChestConfig>): LootConfig => {
+  const chests = resolveChests(config)
+  return { ...config, chests: { ...chests, [type]: { ...chests[type], ...patch } } }
+}
+
+const toWeight = (value: string) => Math.max(0, Math.round(Number(value) || 0))
+
+/**
+ * Inline editor for the active loot tables: entry weights and chest configs.
+ * Every valid change is applied to the next roll, invalid drafts are held back with their issues listed.
+ */
+export const LootEditorPanel = ({ onClose }: Readonly<LootEditorPanelProps>) => {
+  const config = useConfigStore((s) => s.config)
+  const setConfig = useConfigStore((s) => s.setConfig)
+  const resetConfig = useConfigStore((s) => s.resetConfig)
+  const owned = useInventoryStore((s) => s.items)
+  const [draft, setDraft] = useState(() => withChests(config))
+
+  // Follow external changes (import, reset), our own applied drafts are already in sync
+  useEffect(() => {
+    setDraft((current) => (current === config ? current : withChests(config)))
+  }, [config])
+
+  const validation = useMemo(() => validateLootConfig(draft), [draft])
+  const engine = useMemo(
+    () =>
+      validation.ok ? createLootEngine(validation.config, { isOwned: (item) => Object.hasOwn(owned, item) }) : null,
+    [validation, owned],
+  )
+
+  const edit = (next: LootConfig) => {
+    setDraft(next)
+    const result = validateLootConfig(next)
+    if (result.ok) setConfig(next)
+  }
+
+  // An invalid draft never reached the store, so resetting it may not change the config the effect follows
+  const reset = () => {
+    setDraft(withChests(lootConfig))
+    resetConfig()
+  }
+
+  const root = draft.pools[0]
+  const chests = resolveChests(draft)
+  const chestTypes = Object.keys(chests)
+  const rootSum = getPoolSum(root)
+  const chances = Object.fromEntries(chestTypes.map((type) => [type, engine?.getLootChances(type) ?? {}]))
+
+  const renderItemPool = (pool: LootPool) => {
+    const sum = getPoolSum(pool)
+    // Duplicate protection depends on the collection, only known once the draft is valid
+    const probabilities = engine?.getPoolProbabilities(pool.name)
+    return (
+      <details key={pool.name} className="editor-pool">
+        <summary>
+          {pool.name} <span className="editor-muted">({pool.entries.length} entries)</span>
+        </summary>
+        <label className="editor-inline">
+          Owned weight
+          <input
+            type="number"
+            min={0}
+            max={1}
+            step={0.05}
+            placeholder="—"
+            className="editor-input"
+            aria-label={`${pool.name} owned item weight`}
+            value={pool.duplicateProtection?.ownedWeight ?? ""}
+            onChange={(e) =>
+              edit(
+                updatePool(draft, pool.name, {
+                  duplicateProtection:
+                    e.target.value === "" ? undefined : { ownedWeight: clamp(Number(e.target.value) || 0, 0, 1) },
+                }),
+              )
+            }
+          />
+        </label>
+        <table className="tool-table">
+          <tbody>
+            {pool.entries.map((entry) => (
+              <tr key={entry.name}>
+                <td>
+                  {entry.name}
+                  {Object.hasOwn(owned, entry.name) && <span className="editor-muted"> · owned</span>}
+                </td>
+                <td>
+                  <input
+                    type="number"
+                    min={0}
+                    className="editor-input"
+                    value={entry.weight}
+                    onChange={(e) => edit(setEntryWeight(draft, pool.name, entry.name, toWeight(e.target.value)))}
+                  />
+                </td>
+                <td>
+                  {(probabilities
+                    ? toPercentage(probabilities[entry.name] ?? 0, 1)
+                    : toPercentage(entry.weight, sum)
+                  ).toFixed(1)}
+                  %
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </details>
+    )
+  }
+
+  return (
+    <Panel title="Loot Editor" onClose={onClose} className="editor-panel">
+      <h4 className="editor-heading">
+        {root.name} pool · budget {rootSum}/{POOL_BASE_WEIGHT}{" "}
+        <span className={rootSum > POOL_BASE_WEIGHT ? "tool-bad" : "tool-good"}>
+          ({POOL_BASE_WEIGHT - rootSum} left)
+        </span>
+      </h4>
+      <table className="tool-table">
+        <thead>
+          <tr>
+            <th>Rarity</th>
+            <th>Weight</th>
+            {chestTypes.map((type) => (
+              <th key={type}>{type}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {root.entries.map((entry) => (
+            <tr key={entry.name}>
+              <td className={`capitalize rarity-${entry.name}`}>{entry.name}</td>
+              <td>
+                <input
+                  type="number"
+                  min={0}
+                  className="editor-input"
+                  value={entry.weight}
+                  onChange={(e) => edit(setEntryWeight(draft, root.name, entry.name, toWeight(e.target.value)))}
+                />
+              </td>
+              {chestTypes.map((type) => (
+                <td key={type}>
+                  {type in chances && entry.name in chances[type] ? `${chances[type][entry.name]}%` : "—"}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {chestTypes.map((type) => {
+        const chest = chests[type]
+        const chestSum = getChestEntries(root.entries, chest).reduce((acc, e) => acc + e.weight, 0)
+        return (
+          <section key={type} className="editor-chest">
+            <h4 className="editor-heading">
+              <span style={{ color: chest.color }}>{chest.name}</span> · budget {chestSum}/{POOL_BASE_WEIGHT}
+            </h4>
+            <label className="editor-inline">
+              Rolls
+              <input
+                type="number"
+                min={1}
+                className="editor-input"
+                aria-label={`${chest.name} min rolls`}
+                disabled={chest.rolls !== undefined}
+                value={chest.minRolls ?? 1}
+                onChange={(e) => edit(updateChest(draft, type, { minRolls: toWeight(e.target.value) }))}
+              />
+              –
+              <input
+                type="number"
+                min={1}
+                className="editor-input"
+                aria-label={`${chest.name} max rolls`}
+                value={chest.maxRolls}
+                onChange={(e) => edit(updateChest(draft, type, { maxRolls: toWeight(e.target.value) }))}
+              />
+              {chest.rolls && <span>({chest.rolls.type}, capped)</span>}
+            </label>
+            <label className="editor-inline">
+              Fragment cost
+              <input
+                type="number"
+                min={1}
+                placeholder="—"
+                className="editor-input"
+                value={chest.fragmentCost ?? ""}
+                onChange={(e) =>
+                  edit(
+                    updateChest(draft, type, {
+                      fragmentCost: e.target.value === "" ? undefined : toWeight(e.target.value),
+                    }),
+                  )
+                }
+              />
+            </label>
+            <table className="tool-table">
+              <thead>
+                <tr>
+                  <th>Rarity</th>
+                  <th>Excluded</th>
+                  <th>Override</th>
+                </tr>
+              </thead>
+              <tbody>
+                {root.entries.map(({ name }) => (
+                  <tr key={name}>
+                    <td className={`capitalize rarity-${name}`}>{name}</td>
+                    <td>
+                      <input
+                        type="checkbox"
+                        aria-label={`Exclude ${name} from ${chest.name}`}
+                        checked={chest.excludeRarities.includes(name)}
+                        onChange={(e) =>
+                          edit(
+                            updateChest(draft, type, {
+                              excludeRarities: e.target.checked
+                                ? [...chest.excludeRarities, name]
+                                : chest.excludeRarities.filter((r) => r !== name),
+                            }),
+                          )
+                        }
+                      />
+                    </td>
+                    <td>
+                      <input
+                        type="number"
+                        min={0}
+                        placeholder="—"
+                        className="editor-input"
+                        value={chest.weightOverrides?.[name] ?? ""}
+                        onChange={(e) => {
+                          const { [name]: _, ...rest } = chest.weightOverrides ?? {}
+                          const weightOverrides =
+                            e.target.value === "" ? rest : { ...rest, [name]: toWeight(e.target.value) }
+                          edit(
+                            updateChest(draft, type, {
+                              weightOverrides: Object.keys(weightOverrides).length > 0 ? weightOverrides : undefined,
+                            }),
+                          )
+                        }}
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+        )
+      })}
+
+      <h4 className="editor-heading">Item pools</h4>
+      {draft.pools.slice(1).map(renderItemPool)}
+
+      {!validation.ok && (
+        <div className="config-issues">
+          <p className="tool-bad">✗ Not applied, the last valid tables are still rolling:</p>
+          <ul>
+            {validation.issues.map((issue) => (
+              <li key={`${issue.path}-${issue.message}`}>
+                {issue.path && <code>{issue.path}</code>} {issue.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="tool-controls mt-2">
+        <button type="button" className="debug-btn" onClick={reset}>
+          Reset to defaults
+        </button>
+      </div>
+    </Panel>
+  )
+}
@@ -0,0 +1,116 @@
+import { ITEM_CATALOG } from "@/assets/items.ts"
+import { CRAFTING_RECIPES } from "@/assets/recipes.ts"
+import { Panel } from "@/components/common/Panel.tsx"
+import { CRAFT_SOURCE, type CraftingRecipe, getSpareCopies, pickCraftingInputs } from "@/lib/loot/crafting.ts"
+import type { LootEngine } from "@/lib/loot/engine.ts"
+import { RARITY_ORDER } from "@/lib/loot/rarity.ts"
+import { toPercentage } from "@/lib/math.ts"
+import { getNow } from "@/stores/useClockStore.ts"
+import { useInventoryStore } from "@/stores/useInventoryStore.ts"
+import { useSessionStore } from "@/stores/useSessionStore.ts"
+
+interface CraftingPanelProps {
+  engine: Pick<LootEngine, "craft">
+  onClose: () => void
+}
+
+/** Latest crafts listed in the panel */
+const RECENT_CRAFTS = 10
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString(undefined, { timeStyle: "medium" })
+
+/**
+ * Crafting station: fuses spare copies into a roll of a higher rarity.
+ * Crafted items join the collection, and are counted apart from chest drops in the stats and drop history.
+ */
+export const CraftingPanel = ({ engine, onClose }: Readonly<CraftingPanelProps>) => {
+  const items = useInventoryStore((s) => s.items)
+  const addDrops = useInventoryStore((s) => s.addDrops)
+  const removeItems = useInventoryStore((s) => s.removeItems)
+  const crafts = useSessionStore((s) => s.crafts)
+  const craftedCounts = useSessionStore((s) => s.craftedCounts)
+  const recordCraft = useSessionStore((s) => s.recordCraft)
+
+  const craft = (recipe: CraftingRecipe) => {
+    const consumed = pickCraftingInputs(items, recipe)
+    if (!consumed) return
+
+    removeItems(consumed)
+    const drop = engine.craft(recipe)
+    if (drop) addDrops([drop], CRAFT_SOURCE)
+    recordCraft({ at: getNow(), recipe: recipe.id, consumed, item: drop?.item ?? null, rarity: recipe.output })
+  }
+
+  const crafted = RARITY_ORDER.filter((rarity) => craftedCounts[rarity] > 0)
+
+  return (
+    <Panel title="Crafting" onClose={onClose} className="crafting-panel">
+      <table className="tool-table">
+        <thead>
+          <tr>
+            <th>Recipe</th>
+            <th>Success</th>
+            <th>Spares</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {CRAFTING_RECIPES.map((recipe) => {
+            const spares = getSpareCopies(items, recipe.input)
+            return (
+              <tr key={recipe.id}>
+                <td>
+                  {recipe.count} <span className={`capitalize rarity-${recipe.input}`}>{recipe.input}</span> →{" "}
+                  <span className={`capitalize rarity-${recipe.output}`}>{recipe.output}</span>
+                </td>
+                <td>{toPercentage(recipe.chance, 1)}%</td>
+                <td className={spares < recipe.count ? "tool-bad" : "tool-good"}>{spares}</td>
+                <td>
+                  <button
+                    type="button"
+                    className="debug-btn"
+                    disabled={spares < recipe.count}
+                    onClick={() => craft(recipe)}
+                  >
+                    Craft
+                  </button>
+                </td>
+              </tr>
+            )
+          })}
+        </tbody>
+      </table>
+      <p className="editor-muted mb-1">Only spare copies are used up, even when the craft fails.</p>
+
+      <div className="tool-summary mb-2">
+        <span>
+          Crafted:{" "}
+          {crafted.length > 0
+            ? crafted.map((rarity) => `${craftedCounts[rarity]} ${rarity}`).join(" · ")
+            : "nothing yet"}
+        </span>
+      </div>
+
+      {crafts.length > 0 && (
+        <ol className="history-list">
+          {crafts
+            .slice(-RECENT_CRAFTS)
+            .reverse()
+            .map((record, i) => (
+              <li key={`${record.at}-${i}`} className="history-record">
+                <div className="history-record-header">
+                  <span>{formatTime(record.at)}</span>
+                  <span className="editor-muted">{record.recipe}</span>
+                </div>
+                {record.item ? (
+                  <span className={`rarity-${record.rarity}`}>{ITEM_CATALOG[record.item]?.name ?? record.item}</span>
+                ) : (
+                  <span className="tool-bad">Failed</span>
+                )}
+              </li>
+            ))}
+        </ol>
+      )}
+    </Panel>
+  )
+}
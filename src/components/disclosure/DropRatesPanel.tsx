@@ -0,0 +1,99 @@
+import { useMemo } from "react"
+import { Panel } from "@/components/common/Panel.tsx"
+import { downloadFile } from "@/lib/dom.ts"
+import {
+  disclosureToHtml,
+  disclosureToText,
+  formatDisclosedChance,
+  formatItemCounts,
+  getDisclosureRules,
+  getDropRateDisclosure,
+} from "@/lib/loot/disclosure.ts"
+import { useConfigStore } from "@/stores/useConfigStore.ts"
+import { useInventoryStore } from "@/stores/useInventoryStore.ts"
+
+interface DropRatesPanelProps {
+  onClose: () => void
+}
+
+/**
+ * Player-facing drop rate disclosure, rebuilt from the live config and collection on every change.
+ */
+export const DropRatesPanel = ({ onClose }: Readonly<DropRatesPanelProps>) => {
+  const config = useConfigStore((s) => s.config)
+  const owned = useInventoryStore((s) => s.items)
+  const disclosure = useMemo(
+    () => getDropRateDisclosure(config, undefined, undefined, undefined, (item) => Object.hasOwn(owned, item)),
+    [config, owned],
+  )
+  // Item pools don't depend on the chest, list each rarity once
+  const rarities = [...new Map(disclosure.chests.flatMap((c) => c.rarities).map((r) => [r.name, r])).values()]
+
+  return (
+    <Panel title="Drop Rates" onClose={onClose} className="disclosure-panel">
+      {disclosure.chests.map((chest) => (
+        <section key={chest.chestType} className="mb-3">
+          <h4 className="editor-heading">
+            <span style={{ color: chest.color }}>{chest.name}</span> · {chest.minRolls}-{chest.maxRolls} items
+          </h4>
+          <p className="mb-1">Items per open: {formatItemCounts(chest)}</p>
+          <table className="tool-table">
+            <thead>
+              <tr>
+                <th>Rarity</th>
+                <th>Chance</th>
+                <th>Hot streak</th>
+              </tr>
+            </thead>
+            <tbody>
+              {chest.rarities.map((rarity) => (
+                <tr
+                  key={rarity.name}
+                  title={rarity.items.map((i) => `${i.name} ${formatDisclosedChance(i.chance)}`).join("\n")}
+                >
+                  <td className={`capitalize rarity-${rarity.name}`}>{rarity.name}</td>
+                  <td>{formatDisclosedChance(rarity.chance)}</td>
+                  <td>{formatDisclosedChance(rarity.hotStreakChance)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      ))}
+
+      <details className="editor-pool mb-3">
+        <summary>Item odds within each rarity</summary>
+        {rarities.map((rarity) => (
+          <div key={rarity.name} className="mb-1">
+            <span className={`capitalize rarity-${rarity.name}`}>{rarity.name}</span>:{" "}
+            {rarity.items.map((item) => `${item.name} ${formatDisclosedChance(item.chance)}`).join(" · ")}
+          </div>
+        ))}
+      </details>
+
+      <h4 className="editor-heading">Rules</h4>
+      <ul className="disclosure-rules">
+        {getDisclosureRules(disclosure).map((rule) => (
+          <li key={rule}>{rule}</li>
+        ))}
+      </ul>
+
+      <div className="tool-controls mt-2">
+        <button
+          type="button"
+          className="debug-btn"
+          onClick={() => downloadFile("pixeldrop-drop-rates.txt", disclosureToText(disclosure))}
+        >
+          ⇩ Text
+        </button>
+        <button
+          type="button"
+          className="debug-btn"
+          onClick={() => downloadFile("pixeldrop-drop-rates.html", disclosureToHtml(disclosure), "text/html")}
+        >
+          ⇩ HTML
+        </button>
+      </div>
+    </Panel>
+  )
+}
@@ -0,0 +1,46 @@
+import useClock from "@/hooks/useClock.tsx"
+import { useClockStore } from "@/stores/useClockStore.ts"
+
+const HOUR_MS = 60 * 60 * 1000
+
+/** datetime-local inputs work in local time, without a timezone */
+const toLocalInput = (time: number) => {
+  const date = new Date(time)
+  return new Date(time - date.getTimezoneOffset() * 60_000).toISOString().slice(0, 16)
+}
+
+/**
+ * Dev tools clock override, to test scheduled events ahead of time.
+ */
+export const ClockControls = () => {
+  const now = useClock()
+  const offset = useClockStore((s) => s.offset)
+  const setTime = useClockStore((s) => s.setTime)
+  const shiftTime = useClockStore((s) => s.shiftTime)
+  const resetClock = useClockStore((s) => s.resetClock)
+
+  return (
+    <div className="clock-controls">
+      <input
+        type="datetime-local"
+        className="editor-input"
+        value={toLocalInput(now)}
+        onChange={(e) => {
+          const time = new Date(e.target.value).getTime()
+          if (!Number.isNaN(time)) setTime(time)
+        }}
+      />
+      <div className="clock-controls-row">
+        <button type="button" className="debug-btn" onClick={() => shiftTime(HOUR_MS)}>
+          +1h
+        </button>
+        <button type="button" className="debug-btn" onClick={() => shiftTime(24 * HOUR_MS)}>
+          +1d
+        </button>
+        <button type="button" className={`debug-btn ${offset === 0 ? "active" : ""}`} onClick={resetClock}>
+          Real Clock
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,98 @@
+import { useMemo } from "react"
+import { featuredBanners } from "@/assets/banners.ts"
+import { timedEvents } from "@/assets/events.ts"
+import { ITEM_CATALOG } from "@/assets/items.ts"
+import useClock from "@/hooks/useClock.tsx"
+import {
+  type BannerProgress,
+  createBannerProgress,
+  DEFAULT_RATE_UP,
+  type FeaturedBanner,
+  getActiveBanner,
+} from "@/lib/loot/banners.ts"
+import { resolveChests } from "@/lib/loot/engine.ts"
+import { combineEventModifiers, describeEventModifiers, formatCountdown, getEventStatus } from "@/lib/loot/events.ts"
+import { useConfigStore } from "@/stores/useConfigStore.ts"
+import { useSessionStore } from "@/stores/useSessionStore.ts"
+
+/** Upcoming events are announced this long before they start */
+const UPCOMING_NOTICE_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Running events (manual, random x2 and scheduled) and featured banner with a countdown to their end,
+ * or the next scheduled event when it starts within a day.
+ */
+export const EventBanner = () => {
+  const now = useClock()
+  const activeChest = useSessionStore((s) => s.activeChest)
+  const dropMultiplier = useSessionStore((s) => s.dropMultiplier)
+  const x2RollsLeft = useSessionStore((s) => s.x2RollsLeft)
+  // Mutated in place by the engine, the clock tick re-reads it
+  const bannerProgress = useSessionStore((s) => s.lootState.banners)
+  const config = useConfigStore((s) => s.config)
+  const chests = useMemo(() => resolveChests(config), [config])
+
+  const { active, upcoming } = getEventStatus(timedEvents, now)
+  const timed = combineEventModifiers(active.map(({ event }) => event))
+  const chest = timed.chest ?? activeChest
+  const next = upcoming.find(({ startsAt }) => startsAt - now <= UPCOMING_NOTICE_MS)
+  const featured = getActiveBanner(featuredBanners, now)
+
+  const labels = [
+    activeChest !== "normal" && (chests[activeChest]?.name ?? activeChest).toUpperCase(),
+    x2RollsLeft > 0 && `x2 EVENT (${x2RollsLeft})`,
+    x2RollsLeft <= 0 && dropMultiplier > 1 && `x${dropMultiplier} DROPS`,
+  ].filter(Boolean)
+
+  if (labels.length === 0 && active.length === 0 && !next && !featured) return null
+
+  const color = (chests[chest] ?? chests.normal).color
+
+  return (
+    <div className="event-banner" style={{ borderColor: color, color }}>
+      {labels.length > 0 && <div>{labels.join(" + ")}</div>}
+      {active.map(({ event, endsAt }) => (
+        <div key={event.id}>
+          {event.name.toUpperCase()} · {describeEventModifiers(event.modifiers)} · ENDS IN{" "}
+          {formatCountdown(endsAt - now)}
+        </div>
+      ))}
+      {featured && <FeaturedBannerLine {...featured} now={now} progress={bannerProgress[featured.banner.id]} />}
+      {next && (
+        <div className="event-banner-next">
+          NEXT: {next.event.name.toUpperCase()} IN {formatCountdown(next.startsAt - now)}
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface FeaturedBannerLineProps {
+  banner: FeaturedBanner
+  endsAt: number
+  now: number
+  progress?: BannerProgress
+}
+
+/** Featured items, rate-up, countdown and the banner's own drop counters */
+const FeaturedBannerLine = ({
+  banner,
+  endsAt,
+  now,
+  progress = createBannerProgress(),
+}: Readonly<FeaturedBannerLineProps>) => {
+  const items = banner.featured.map((entry) => ITEM_CATALOG[entry.name]?.name ?? entry.name).join(" / ")
+  const rateUp = Math.round((banner.rateUp ?? DEFAULT_RATE_UP) * 100)
+
+  return (
+    <div className="event-banner-featured">
+      <div>
+        ★ {banner.name.toUpperCase()} · {items} {rateUp}% RATE-UP · ENDS IN {formatCountdown(endsAt - now)}
+      </div>
+      <div className="event-banner-next">
+        FEATURED {progress.featured}/{progress.hits} · LOST {progress.lost}
+        {progress.guaranteed.length > 0 && ` · NEXT ${progress.guaranteed.join("/").toUpperCase()} IS FEATURED`}
+      </div>
+    </div>
+  )
+}
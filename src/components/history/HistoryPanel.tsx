@@ -0,0 +1,142 @@
+import { useMemo, useState } from "react"
+import { ITEM_CATALOG } from "@/assets/items.ts"
+import { Panel } from "@/components/common/Panel.tsx"
+import { PixelIcon } from "@/components/items/PixelIcon.tsx"
+import { downloadFile } from "@/lib/dom.ts"
+import { CRAFT_SOURCE } from "@/lib/loot/crafting.ts"
+import { resolveChests } from "@/lib/loot/engine.ts"
+import { filterHistory, type HistoryFilter, historyToCsv, historyToJson, isCraftRecord } from "@/lib/loot/history.ts"
+import { RARITY_ORDER } from "@/lib/loot/rarity.ts"
+import { useConfigStore } from "@/stores/useConfigStore.ts"
+import { MAX_HISTORY, useSessionStore } from "@/stores/useSessionStore.ts"
+
+interface HistoryPanelProps {
+  onClose: () => void
+}
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString(undefined, { timeStyle: "medium" })
+
+/**
+ * Drop history of the session, newest first, filterable by rarity and rolled chest type.
+ * Crafts are listed alongside, marked as crafted.
+ * The filtered records can be exported to CSV (one row per item) or JSON.
+ */
+export const HistoryPanel = ({ onClose }: Readonly<HistoryPanelProps>) => {
+  const history = useSessionStore((s) => s.history)
+  const crafts = useSessionStore((s) => s.crafts)
+  const config = useConfigStore((s) => s.config)
+  const chests = useMemo(() => resolveChests(config), [config])
+  const [filter, setFilter] = useState<HistoryFilter>({ rarity: "all", chest: "all" })
+
+  const records = useMemo(() => filterHistory(history, filter, crafts), [history, filter, crafts])
+  const craftCount = records.filter(isCraftRecord).length
+
+  return (
+    <Panel title="Drop History" onClose={onClose} className="history-panel">
+      <div className="tool-controls">
+        <label>
+          Rarity
+          <select
+            value={filter.rarity}
+            onChange={(e) => setFilter((f) => ({ ...f, rarity: e.target.value as HistoryFilter["rarity"] }))}
+          >
+            <option value="all">all</option>
+            {RARITY_ORDER.map((rarity) => (
+              <option key={rarity} value={rarity}>
+                {rarity}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Chest
+          <select
+            value={filter.chest}
+            onChange={(e) => setFilter((f) => ({ ...f, chest: e.target.value as HistoryFilter["chest"] }))}
+          >
+            <option value="all">all</option>
+            {Object.entries(chests).map(([type, chest]) => (
+              <option key={type} value={type}>
+                {chest.name}
+              </option>
+            ))}
+            <option value={CRAFT_SOURCE}>Crafting</option>
+          </select>
+        </label>
+        <button
+          type="button"
+          className="debug-btn"
+          disabled={records.length === 0}
+          onClick={() => downloadFile("pixeldrop-history.csv", historyToCsv(records), "text/csv")}
+        >
+          ⇩ CSV
+        </button>
+        <button
+          type="button"
+          className="debug-btn"
+          disabled={records.length === 0}
+          onClick={() => downloadFile("pixeldrop-history.json", historyToJson(records), "application/json")}
+        >
+          ⇩ JSON
+        </button>
+      </div>
+
+      <p className="editor-muted mb-1">
+        {records.length - craftCount} of {history.length} openings
+        {history.length >= MAX_HISTORY && ` (last ${MAX_HISTORY} kept)`} · {craftCount} of {crafts.length} crafts
+      </p>
+
+      <ol className="history-list">
+        {[...records].reverse().map((record, idx) =>
+          isCraftRecord(record) ? (
+            <li key={`craft-${record.at}-${idx}`} className="history-record">
+              <div className="history-record-header">
+                <span>⚒ Crafted · {formatTime(record.at)}</span>
+                <span className="editor-muted">{record.recipe}</span>
+              </div>
+              <div className="history-drops">
+                {record.item ? (
+                  <span className={`rarity-${record.rarity}`} title={record.rarity}>
+                    {ITEM_CATALOG[record.item] && <PixelIcon name={ITEM_CATALOG[record.item].icon} size={12} />}{" "}
+                    {ITEM_CATALOG[record.item]?.name ?? record.item} (crafted)
+                  </span>
+                ) : (
+                  <span className="editor-muted">
+                    Failed, used {record.consumed.reduce((acc, { count }) => acc + count, 0)} items
+                  </span>
+                )}
+              </div>
+            </li>
+          ) : (
+            <li key={record.attempt} className="history-record">
+              <div className="history-record-header">
+                <span>
+                  #{record.attempt} · {formatTime(record.at)}
+                </span>
+                <span>
+                  <span className="capitalize">{record.chest}</span>
+                  {record.chest !== record.requestedChest && (
+                    <span className="editor-muted"> (from {record.requestedChest})</span>
+                  )}
+                  {record.multiplier > 1 && ` · x${record.multiplier}`}
+                  {record.rarityBoost > 1 && ` · boost x${record.rarityBoost}`}
+                </span>
+              </div>
+              <div className="history-drops">
+                {record.drops.map((drop, i) => (
+                  <span key={`${drop.item}-${i}`} className={`rarity-${drop.rarity}`} title={drop.rarity}>
+                    {ITEM_CATALOG[drop.item] && <PixelIcon name={ITEM_CATALOG[drop.item].icon} size={12} />}{" "}
+                    {ITEM_CATALOG[drop.item]?.name ?? drop.item}
+                    {drop.pity && " (pity)"}
+                    {drop.guaranteed && " (guaranteed)"}
+                    {drop.featured && " (featured)"}
+                  </span>
+                ))}
+              </div>
+            </li>
+          ),
+        )}
+      </ol>
+    </Panel>
+  )
+}
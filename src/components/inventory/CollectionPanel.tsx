@@ -0,0 +1,99 @@
+import { useMemo } from "react"
+import { ITEM_CATALOG } from "@/assets/items.ts"
+import { Panel } from "@/components/common/Panel.tsx"
+import { PixelIcon } from "@/components/items/PixelIcon.tsx"
+import { getCollectionProgress } from "@/lib/loot/collection.ts"
+import { CRAFT_SOURCE } from "@/lib/loot/crafting.ts"
+import { getDuplicates, getSalvageYield } from "@/lib/loot/salvage.ts"
+import { useInventoryStore } from "@/stores/useInventoryStore.ts"
+import { useSessionStore } from "@/stores/useSessionStore.ts"
+
+interface CollectionPanelProps {
+  onClose: () => void
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: "short", timeStyle: "short" })
+
+/**
+ * Collection log: every catalog item grouped by rarity, with completion per tier.
+ * Items not obtained yet are shown as locked silhouettes, owned copies can be salvaged into fragments.
+ */
+export const CollectionPanel = ({ onClose }: Readonly<CollectionPanelProps>) => {
+  const items = useInventoryStore((s) => s.items)
+  const removeItems = useInventoryStore((s) => s.removeItems)
+  const addFragments = useSessionStore((s) => s.addFragments)
+  const progress = useMemo(() => getCollectionProgress(ITEM_CATALOG, (id) => id in items), [items])
+
+  const owned = progress.reduce((acc, group) => acc + group.owned, 0)
+  const total = progress.reduce((acc, group) => acc + group.total, 0)
+  const duplicates = getDuplicates(items)
+  const duplicateFragments = duplicates.reduce((acc, entry) => acc + entry.fragments, 0)
+
+  const salvage = (removals: { item: string; count: number }[]) => {
+    removeItems(removals)
+    addFragments(removals.reduce((acc, { item, count }) => acc + getSalvageYield(item, count), 0))
+  }
+
+  return (
+    <Panel title="Collection" onClose={onClose} className="collection-panel">
+      <div className="tool-summary mb-2">
+        <span>
+          {owned}/{total} items · {total === 0 ? 0 : Math.floor((owned / total) * 100)}% complete
+        </span>
+        <button
+          type="button"
+          className="debug-btn self-start"
+          disabled={duplicates.length === 0}
+          onClick={() => salvage(duplicates)}
+        >
+          Salvage all duplicates (+{duplicateFragments})
+        </button>
+      </div>
+
+      {progress.map((group) => (
+        <section key={group.rarity} className="collection-group">
+          <div className="collection-group-header">
+            <span className={`capitalize rarity-${group.rarity}`}>{group.rarity}</span>
+            <span>
+              {group.owned}/{group.total} · {group.pct.toFixed(0)}%
+            </span>
+          </div>
+          <div className="collection-bar">
+            <div style={{ width: `${group.pct}%`, background: `var(--color-${group.rarity})` }} />
+          </div>
+
+          <ul className="collection-items">
+            {group.items.map((item) => {
+              const entry = items[item.id]
+              return (
+                <li key={item.id} className={entry ? `rarity-${item.rarity}` : "collection-locked"}>
+                  <PixelIcon name={item.icon} size={20} />
+                  <div className="flex flex-col">
+                    <span>{entry ? item.name : "???"}</span>
+                    {entry && (
+                      <span className="collection-meta">
+                        ×{entry.count} · first {formatDate(entry.firstObtainedAt)}{" "}
+                        {entry.firstSource === CRAFT_SOURCE ? "crafted" : `from ${entry.firstSource} chest`}
+                      </span>
+                    )}
+                  </div>
+                  {entry && (
+                    <button
+                      type="button"
+                      className="collection-salvage"
+                      title={`Salvage one copy for ${getSalvageYield(item.id, 1)} fragments${entry.count === 1 ? " (your last one)" : ""}`}
+                      onClick={() => salvage([{ item: item.id, count: 1 }])}
+                    >
+                      +{getSalvageYield(item.id, 1)}
+                    </button>
+                  )}
+                </li>
+              )
+            })}
+          </ul>
+        </section>
+      ))}
+    </Panel>
+  )
+}
@@ -0,0 +1,50 @@
+import { PIXEL_ICONS, type PixelIconName } from "@/assets/icons.ts"
+import { cn } from "@/lib/cn.ts"
+
+interface PixelIconProps {
+  name: PixelIconName
+  /** Rendered size in pixels (default: 16) */
+  size?: number
+  className?: string
+}
+
+const PIXEL_OPACITY: Record<string, number> = { "#": 1, "=": 0.55 }
+
+const toPixels = (rows: readonly string[]) => {
+  const pixels: { key: string; x: number; y: number; value: string }[] = []
+  for (let y = 0; y < rows.length; y++) {
+    for (let x = 0; x < rows[y].length; x++) {
+      if (rows[y][x] !== ".") pixels.push({ key: `${x}:${y}`, x, y, value: rows[y][x] })
+    }
+  }
+  return pixels
+}
+
+/**
+ * Renders an 8x8 item sprite from PIXEL_ICONS.
+ * Colored with currentColor, so rarity text classes apply to it.
+ */
+export const PixelIcon = ({ name, size = 16, className }: Readonly<PixelIconProps>) => {
+  return (
+    <svg
+      viewBox="0 0 8 8"
+      width={size}
+      height={size}
+      shapeRendering="crispEdges"
+      aria-hidden="true"
+      className={cn("pixel-icon", className)}
+    >
+      {toPixels(PIXEL_ICONS[name]).map(({ key, x, y, value }) => (
+        <rect
+          key={key}
+          x={x}
+          y={y}
+          width={1}
+          height={1}
+          fill={value === "+" ? "#ffffff" : "currentColor"}
+          fillOpacity={PIXEL_OPACITY[value] ?? 0.85}
+        />
+      ))}
+    </svg>
+  )
+}
@@ -0,0 +1,88 @@
+import { useState } from "react"
+import { Panel } from "@/components/common/Panel.tsx"
+import { readSessionSlot, SESSION_SLOT_COUNT, useSessionStore } from "@/stores/useSessionStore.ts"
+
+interface SavesPanelProps {
+  onClose: () => void
+}
+
+const readSlots = () =>
+  Array.from({ length: SESSION_SLOT_COUNT }, (_, slot) => ({ slot, result: readSessionSlot(slot) }))
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: "short", timeStyle: "short" })
+
+/**
+ * Manual session save slots. The current session is also autosaved after every chest.
+ */
+export const SavesPanel = ({ onClose }: Readonly<SavesPanelProps>) => {
+  const saveSlot = useSessionStore((s) => s.saveSlot)
+  const loadSlot = useSessionStore((s) => s.loadSlot)
+  const deleteSlot = useSessionStore((s) => s.deleteSlot)
+  // Slots live in localStorage, re-read after every change
+  const [slots, setSlots] = useState(readSlots)
+  const [message, setMessage] = useState<{ text: string; ok: boolean } | null>(null)
+
+  return (
+    <Panel title="Saves" onClose={onClose}>
+      <p className="tool-summary mb-2">Progress is autosaved after every chest and restored on reload.</p>
+      <table className="tool-table">
+        <tbody>
+          {slots.map(({ slot, result }) => (
+            <tr key={slot}>
+              <td>
+                Slot {slot + 1}
+                <div className="editor-muted">
+                  {result.ok
+                    ? `${formatDate(result.slot.savedAt)} · ${result.slot.data.attempts} chests · seed ${result.slot.data.seed}`
+                    : result.message}
+                </div>
+              </td>
+              <td>
+                <div className="tool-controls justify-end mb-0">
+                  <button
+                    type="button"
+                    className="debug-btn"
+                    onClick={() => {
+                      saveSlot(slot)
+                      setSlots(readSlots())
+                      setMessage({ text: `Saved to slot ${slot + 1}`, ok: true })
+                    }}
+                  >
+                    Save
+                  </button>
+                  <button
+                    type="button"
+                    className="debug-btn"
+                    disabled={!result.ok}
+                    onClick={() => {
+                      const loaded = loadSlot(slot)
+                      setMessage(
+                        loaded.ok ? { text: `Loaded slot ${slot + 1}`, ok: true } : { text: loaded.message, ok: false },
+                      )
+                    }}
+                  >
+                    Load
+                  </button>
+                  <button
+                    type="button"
+                    className="debug-btn"
+                    disabled={!result.ok}
+                    onClick={() => {
+                      deleteSlot(slot)
+                      setSlots(readSlots())
+                      setMessage(null)
+                    }}
+                  >
+                    Delete
+                  </button>
+                </div>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {message && <p className={`mt-2 ${message.ok ? "tool-good" : "tool-bad"}`}>{message.text}</p>}
+    </Panel>
+  )
+}
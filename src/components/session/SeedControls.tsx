@@ -0,0 +1,47 @@
+import { type FormEvent, useState } from "react"
+import { randomSeed } from "@/lib/random.ts"
+import { useSessionStore } from "@/stores/useSessionStore.ts"
+
+interface SeedControlsProps {
+  /** Starts a fresh session on a seed */
+  onSeed: (seed: number) => void
+}
+
+/**
+ * Dev tools seed controls: a random new seed, or a known one typed in to replay a reported session.
+ */
+export const SeedControls = ({ onSeed }: Readonly<SeedControlsProps>) => {
+  const seed = useSessionStore((s) => s.seed)
+  const [input, setInput] = useState("")
+  const parsed = /^\d+$/.test(input.trim()) ? Number(input.trim()) >>> 0 : null
+
+  const submit = (e: FormEvent) => {
+    e.preventDefault()
+    if (parsed === null) return
+    onSeed(parsed)
+    setInput("")
+  }
+
+  return (
+    <div className="clock-controls">
+      <button type="button" className="debug-btn" onClick={() => onSeed(randomSeed())}>
+        New Seed
+      </button>
+      <form className="clock-controls-row" onSubmit={submit}>
+        <input
+          type="text"
+          inputMode="numeric"
+          className="editor-input"
+          placeholder={String(seed)}
+          aria-label="Seed to replay"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+        />
+        <button type="submit" className="debug-btn" disabled={parsed === null}>
+          Use Seed
+        </button>
+      </form>
+      <div className="debug-seed">Seed: {seed}</div>
+    </div>
+  )
+}
@@ -0,0 +1,144 @@
+import { useMemo, useState } from "react"
+import { timedEvents } from "@/assets/events.ts"
+import type { LootConfig } from "@/assets/pools.ts"
+import { Panel } from "@/components/common/Panel.tsx"
+import { type ChestType, createLootEngine, HOT_STREAK, resolveChests, X2_EVENT } from "@/lib/loot/engine.ts"
+import { getActiveEventModifiers } from "@/lib/loot/events.ts"
+import { getEffectiveOdds, type OddsState } from "@/lib/loot/odds.ts"
+import { getNow } from "@/stores/useClockStore.ts"
+import { useSessionStore } from "@/stores/useSessionStore.ts"
+
+const MULTIPLIERS = [1, 2, 3] as const
+
+interface OddsPanelProps {
+  config: LootConfig
+  onClose: () => void
+}
+
+const formatChance = (chance: number) => `${(chance * 100).toFixed(chance < 0.01 ? 3 : 2)}%`
+
+/**
+ * Exact effective odds of the next chest opening, computed analytically from the live config.
+ * Starts from the current session state (soft pity counters included), every modifier can then be changed by hand.
+ */
+export const OddsPanel = ({ config, onClose }: Readonly<OddsPanelProps>) => {
+  const readSession = () => {
+    const session = useSessionStore.getState()
+    const timed = getActiveEventModifiers(timedEvents, getNow())
+    const { selectedKey } = session
+    const stored = selectedKey !== null && (session.chestKeys[selectedKey] ?? 0) > 0
+    return {
+      chestType: stored ? selectedKey : (timed.chest ?? session.activeChest),
+      stored,
+      dropMultiplier: Math.max(session.dropMultiplier, timed.multiplier ?? 1),
+      x2Event: session.x2RollsLeft > 0,
+      hotStreak: session.hotStreakRolls > 0,
+      eventBoost: timed.rarityBoost ?? 1,
+      softPity: true,
+      // Copied, the engine keeps mutating the session counters
+      pity: structuredClone(session.lootState.pity),
+    }
+  }
+  const [inputs, setInputs] = useState(readSession)
+  const update = (patch: Partial<typeof inputs>) => setInputs((current) => ({ ...current, ...patch }))
+
+  const odds = useMemo(() => {
+    const state: OddsState = {
+      chestType: inputs.chestType,
+      stored: inputs.stored,
+      multiplier: inputs.x2Event ? Math.max(inputs.dropMultiplier, X2_EVENT.multiplier) : inputs.dropMultiplier,
+      rarityBoost: (inputs.hotStreak ? HOT_STREAK.boost : 1) * inputs.eventBoost,
+      pity: inputs.softPity ? inputs.pity : undefined,
+    }
+    return getEffectiveOdds(createLootEngine(config), state)
+  }, [config, inputs])
+
+  return (
+    <Panel title="Odds Calculator" onClose={onClose} className="sim-panel">
+      <div className="tool-controls">
+        <label>
+          Chest
+          <select value={inputs.chestType} onChange={(e) => update({ chestType: e.target.value as ChestType })}>
+            {Object.entries(resolveChests(config)).map(([type, chest]) => (
+              <option key={type} value={type}>
+                {chest.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Stored key
+          <input type="checkbox" checked={inputs.stored} onChange={(e) => update({ stored: e.target.checked })} />
+        </label>
+        <label>
+          Drops
+          <select value={inputs.dropMultiplier} onChange={(e) => update({ dropMultiplier: Number(e.target.value) })}>
+            {MULTIPLIERS.map((m) => (
+              <option key={m} value={m}>
+                x{m}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          x2 event
+          <input type="checkbox" checked={inputs.x2Event} onChange={(e) => update({ x2Event: e.target.checked })} />
+        </label>
+        <label>
+          Hot streak
+          <input type="checkbox" checked={inputs.hotStreak} onChange={(e) => update({ hotStreak: e.target.checked })} />
+        </label>
+        <label>
+          Soft pity
+          <input type="checkbox" checked={inputs.softPity} onChange={(e) => update({ softPity: e.target.checked })} />
+        </label>
+        <label>
+          Event boost
+          <input
+            type="number"
+            min={1}
+            step={0.1}
+            className="editor-input"
+            value={inputs.eventBoost}
+            onChange={(e) => update({ eventBoost: Math.max(1, Number(e.target.value) || 1) })}
+          />
+        </label>
+        <button type="button" className="debug-btn" onClick={() => setInputs(readSession())}>
+          ↺ Session
+        </button>
+      </div>
+
+      <table className="tool-table">
+        <thead>
+          <tr>
+            <th>Rarity</th>
+            <th>Per item</th>
+            <th>≥1 / open</th>
+            <th>Avg / open</th>
+          </tr>
+        </thead>
+        <tbody>
+          {odds.rarities.map((rarity) => (
+            <tr key={rarity.name}>
+              <td className={`capitalize rarity-${rarity.name}`}>{rarity.name}</td>
+              <td>{formatChance(rarity.perItem)}</td>
+              <td>{formatChance(rarity.perAttempt)}</td>
+              <td>{rarity.expectedCount.toFixed(3)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="tool-summary">
+        <span>Chest: {odds.chests.map((chest) => `${chest.chestType} ${formatChance(chest.chance)}`).join(" · ")}</span>
+        <span>Items: {odds.itemCounts.map((c) => `${c.count} (${formatChance(c.chance)})`).join(" · ")}</span>
+        <span>Expected items per open: {odds.expectedItems.toFixed(3)}</span>
+        <span className="editor-muted">
+          {inputs.softPity
+            ? "Soft pity uses the session's current dry counters, hard pity is not included"
+            : "Pity is not included, its counters change within an opening"}
+        </span>
+      </div>
+    </Panel>
+  )
+}
@@ -0,0 +1,171 @@
+import { useMemo, useState } from "react"
+import type { LootConfig } from "@/assets/pools.ts"
+import { Panel } from "@/components/common/Panel.tsx"
+import { type ChestType, createLootEngine, resolveChests } from "@/lib/loot/engine.ts"
+import { type SimulationResult, simulateChestOpens } from "@/lib/loot/simulate.ts"
+import { toPercentage } from "@/lib/math.ts"
+import { randomSeed } from "@/lib/random.ts"
+
+const OPEN_COUNTS = [1000, 10000, 100000] as const
+const MULTIPLIERS = [1, 2, 3] as const
+const RARITY_BOOSTS = [1, 1.5, 2] as const
+const SIGNIFICANCE = 0.05
+
+interface SimulationPanelProps {
+  config: LootConfig
+  onClose: () => void
+}
+
+/**
+ * Monte Carlo runner for validating loot weights.
+ * Opens N chests on a throwaway engine and checks the result with a chi-square test.
+ */
+export const SimulationPanel = ({ config, onClose }: Readonly<SimulationPanelProps>) => {
+  const [opens, setOpens] = useState<number>(OPEN_COUNTS[1])
+  const [chestType, setChestType] = useState<ChestType>("normal")
+  const [multiplier, setMultiplier] = useState(1)
+  const [rarityBoost, setRarityBoost] = useState(1)
+  const [pity, setPity] = useState(false)
+  const [result, setResult] = useState<SimulationResult | null>(null)
+
+  const softPityRamps = useMemo(
+    () => createLootEngine(config).getSoftPityRamps(chestType, rarityBoost),
+    [config, chestType, rarityBoost],
+  )
+
+  const onRun = () => {
+    setResult(simulateChestOpens(config, { opens, chestType, multiplier, rarityBoost, pity, seed: randomSeed() }))
+  }
+
+  return (
+    <Panel title="Simulation" onClose={onClose} className="sim-panel">
+      <div className="tool-controls">
+        <label>
+          Opens
+          <select value={opens} onChange={(e) => setOpens(Number(e.target.value))}>
+            {OPEN_COUNTS.map((n) => (
+              <option key={n} value={n}>
+                {n.toLocaleString()}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Chest
+          <select value={chestType} onChange={(e) => setChestType(e.target.value as ChestType)}>
+            {Object.entries(resolveChests(config)).map(([type, chest]) => (
+              <option key={type} value={type}>
+                {chest.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Drops
+          <select value={multiplier} onChange={(e) => setMultiplier(Number(e.target.value))}>
+            {MULTIPLIERS.map((m) => (
+              <option key={m} value={m}>
+                x{m}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Boost
+          <select value={rarityBoost} onChange={(e) => setRarityBoost(Number(e.target.value))}>
+            {RARITY_BOOSTS.map((b) => (
+              <option key={b} value={b}>
+                x{b}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Pity
+          <input type="checkbox" checked={pity} onChange={(e) => setPity(e.target.checked)} />
+        </label>
+        <button type="button" className="debug-btn" onClick={onRun}>
+          ▶ Run
+        </button>
+      </div>
+
+      {softPityRamps.length > 0 && (
+        <div className="mb-2">
+          {softPityRamps.map(({ rule, points }) => (
+            <div key={rule.rarity} className="sim-ramp">
+              <span>
+                <span className={`capitalize rarity-${rule.rarity}`}>{rule.rarity}</span> soft pity ({rule.curve.type})
+              </span>
+              <table className="tool-table">
+                <tbody>
+                  <tr>
+                    <td>Roll</td>
+                    {points.map((point) => (
+                      <td key={point.roll}>{point.roll}</td>
+                    ))}
+                  </tr>
+                  <tr>
+                    <td>Rate</td>
+                    {points.map((point) => (
+                      <td key={point.roll}>{point.chance.toFixed(1)}%</td>
+                    ))}
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {result && (
+        <>
+          <table className="tool-table">
+            <thead>
+              <tr>
+                <th>Rarity</th>
+                <th>Count</th>
+                <th>Obs.</th>
+                <th>Exp.</th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.rows.map((row) => (
+                <tr key={row.name}>
+                  <td className={`capitalize rarity-${row.name}`}>{row.name}</td>
+                  <td>{row.observed.toLocaleString()}</td>
+                  <td>{row.observedPct.toFixed(2)}%</td>
+                  <td>{row.expectedPct.toFixed(2)}%</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="tool-summary">
+            {result.options.pity && <span>Pity rules on: expected rates ignore pity</span>}
+            <span>
+              {result.options.opens.toLocaleString()} opens · {result.totalItems.toLocaleString()} items · seed{" "}
+              {result.options.seed}
+            </span>
+            <span>
+              Items / open:{" "}
+              {result.itemCounts
+                .map(
+                  (row) =>
+                    `${row.count}: ${toPercentage(row.observed, result.options.opens)}% (exp. ${toPercentage(row.expected, result.options.opens)}%)`,
+                )
+                .join(" · ")}
+            </span>
+            <span>
+              χ² = {result.test.statistic.toFixed(2)} (df {result.test.degreesOfFreedom}) · p ={" "}
+              {result.test.pValue.toFixed(4)}
+            </span>
+            <span className={result.test.pValue < SIGNIFICANCE ? "tool-bad" : "tool-good"}>
+              {result.test.pValue < SIGNIFICANCE
+                ? `✗ Rates deviate from config (p < ${SIGNIFICANCE})`
+                : "✓ Consistent with config"}
+            </span>
+          </div>
+        </>
+      )}
+    </Panel>
+  )
+}
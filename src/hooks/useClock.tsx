@@ -0,0 +1,20 @@
+import { useEffect, useState } from "react"
+import { useClockStore } from "@/stores/useClockStore.ts"
+
+/**
+ * Current time (epoch ms), including the dev clock override.
+ * Re-renders every `interval` ms and whenever the override changes.
+ */
+const useClock = (interval = 1000) => {
+  const offset = useClockStore((s) => s.offset)
+  const [now, setNow] = useState(Date.now)
+
+  useEffect(() => {
+    const id = setInterval(() => setNow(Date.now()), interval)
+    return () => clearInterval(id)
+  }, [interval])
+
+  return now + offset
+}
+
+export default useClock
@@ -242,3 +242,22 @@ export const getScrollPosition = (): { x: number; y: number } => {
     y: window.scrollY || window.pageYOffset,
   }
 }
+
+/**
+ * Downloads text content as a file.
+ * @param filename - Suggested file name
+ * @param content - File content
+ * @param type - MIME type (default: text/plain)
+ * @example
+ * downloadFile('config.json', JSON.stringify(config), 'application/json')
+ */
+export const downloadFile = (filename: string, content: string, type: string = "text/plain"): void => {
+  if (globalThis.document === undefined) return
+
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
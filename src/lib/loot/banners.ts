@@ -0,0 +1,52 @@
+/**
+ * Featured-item banners: while a banner runs, every drop of a featured tier has a rate-up chance
+ * of being a featured item, and a lost rate-up makes the next drop of that tier featured.
+ * The rolls themselves happen in the loot engine (see GetLootsOptions.banner).
+ */
+
+import type { LootEntry } from "@/assets/pools.ts"
+import { type EventSchedule, getEventWindow } from "@/lib/loot/events.ts"
+
+/** Default chance (0-1) that a drop of a featured tier is a featured item */
+export const DEFAULT_RATE_UP = 0.5
+
+export type FeaturedBanner = {
+  id: string
+  name: string
+  schedule: EventSchedule
+  /** Featured catalog items, weighted against the other featured items of the same rarity */
+  featured: LootEntry[]
+  /** Chance (0-1) that a drop of a featured tier is a featured item (default: DEFAULT_RATE_UP) */
+  rateUp?: number
+}
+
+/** Drop counters of a banner, kept in the loot engine state */
+export type BannerProgress = {
+  /** Featured tiers whose next drop is a featured item, after a lost rate-up */
+  guaranteed: string[]
+  /** Drops of a featured tier */
+  hits: number
+  /** Featured items dropped */
+  featured: number
+  /** Rate-up rolls lost */
+  lost: number
+}
+
+export const createBannerProgress = (): BannerProgress => ({ guaranteed: [], hits: 0, featured: 0, lost: 0 })
+
+/**
+ * Finds the banner running at `now`, banners listed first win when several overlap.
+ * @param banners - Scheduled banners
+ * @param now - Current time (epoch ms)
+ * @returns The running banner and the time it ends, or null
+ */
+export const getActiveBanner = (
+  banners: FeaturedBanner[],
+  now: number,
+): { banner: FeaturedBanner; endsAt: number } | null => {
+  for (const banner of banners) {
+    const window = getEventWindow(banner.schedule, now)
+    if (window && window.start <= now) return { banner, endsAt: window.end }
+  }
+  return null
+}
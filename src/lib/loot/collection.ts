@@ -0,0 +1,25 @@
+import type { ItemCatalog, ItemDefinition } from "@/assets/items.ts"
+import { RARITY_ORDER, type Rarity } from "@/lib/loot/rarity.ts"
+
+export type RarityProgress = {
+  rarity: Rarity
+  items: ItemDefinition[]
+  owned: number
+  total: number
+  /** Completion in percent */
+  pct: number
+}
+
+/**
+ * Groups the catalog by rarity and counts how many distinct items are owned.
+ * @param catalog - All collectible items
+ * @param isOwned - Whether an item id has been obtained
+ * @returns One entry per rarity that has items, in RARITY_ORDER
+ */
+export const getCollectionProgress = (catalog: ItemCatalog, isOwned: (id: string) => boolean): RarityProgress[] => {
+  return RARITY_ORDER.map((rarity) => {
+    const items = Object.values(catalog).filter((item) => item.rarity === rarity)
+    const owned = items.filter((item) => isOwned(item.id)).length
+    return { rarity, items, owned, total: items.length, pct: items.length === 0 ? 0 : (owned / items.length) * 100 }
+  }).filter((group) => group.total > 0)
+}
@@ -0,0 +1,399 @@
+/**
+ * Loot config files: schema validation for untrusted JSON and serialization for export.
+ * Every problem is reported with its JSON path instead of stopping at the first one.
+ */
+
+import { ITEM_CATALOG, type ItemCatalog } from "@/assets/items.ts"
+import type { LootConfig } from "@/assets/pools.ts"
+import {
+  type ConfigIssue,
+  getCatalogIssues,
+  getChestEntries,
+  getPoolChainIssues,
+  POOL_BASE_WEIGHT,
+  resolveChests,
+} from "@/lib/loot/engine.ts"
+import { isRarity } from "@/lib/loot/rarity.ts"
+
+export type ConfigValidation = { ok: true; config: LootConfig } | { ok: false; issues: ConfigIssue[] }
+
+const CURVE_TYPES = ["linear", "exponential", "steps"]
+const SKIN_COLORS = ["lid", "body", "dark", "lock", "glow"]
+/** Upper bound of roll counts and distribution parameters: count tables are built and rolled on the main thread */
+const MAX_ROLL_COUNT = 100
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+
+const isCount = (value: unknown, min: number, max = Number.POSITIVE_INFINITY): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value >= min && value <= max
+
+const describe = (value: unknown) => (typeof value === "string" ? `"${value}"` : JSON.stringify(value))
+
+const isChance = (value: unknown): value is number => typeof value === "number" && value >= 0 && value <= 1
+
+/** Checks a roll count distribution (see CountDistribution) */
+const getDistributionIssues = (raw: unknown, at: string): ConfigIssue[] => {
+  const issues: ConfigIssue[] = []
+  const add = (path: string, message: string) => {
+    issues.push({ path, message })
+  }
+  if (!isRecord(raw)) return [{ path: at, message: "Distribution must be an object" }]
+
+  const range = `from 0 to ${MAX_ROLL_COUNT}`
+  if (raw.offset !== undefined && !isCount(raw.offset, 0, MAX_ROLL_COUNT)) {
+    add(`${at}.offset`, `Offset must be a whole number ${range}`)
+  }
+  switch (raw.type) {
+    case "fixed":
+      if (!isCount(raw.count, 0, MAX_ROLL_COUNT)) add(`${at}.count`, `Count must be a whole number ${range}`)
+      break
+    case "uniform":
+      if (!isCount(raw.min, 0, MAX_ROLL_COUNT)) add(`${at}.min`, `Min must be a whole number ${range}`)
+      if (!isCount(raw.max, 0, MAX_ROLL_COUNT)) add(`${at}.max`, `Max must be a whole number ${range}`)
+      else if (isCount(raw.min, 0) && raw.min > raw.max) add(at, `Min (${raw.min}) above max (${raw.max})`)
+      break
+    case "weighted":
+      if (!Array.isArray(raw.table) || raw.table.length === 0) {
+        add(`${at}.table`, "Expected a non-empty array of counts")
+      } else {
+        raw.table.forEach((entry: unknown, i) => {
+          if (
+            !isRecord(entry) ||
+            !isCount(entry.count, 0, MAX_ROLL_COUNT) ||
+            typeof entry.weight !== "number" ||
+            entry.weight < 0
+          ) {
+            add(`${at}.table[${i}]`, `Entry needs a whole \`count\` ${range} and a non-negative \`weight\``)
+          }
+        })
+        if (raw.table.every((entry: unknown) => !isRecord(entry) || !entry.weight)) {
+          add(`${at}.table`, "Table has no weight to roll from")
+        }
+      }
+      break
+    case "binomial":
+      if (!isCount(raw.trials, 1, MAX_ROLL_COUNT)) {
+        add(`${at}.trials`, `Trials must be a whole number from 1 to ${MAX_ROLL_COUNT}`)
+      }
+      if (!isChance(raw.p)) add(`${at}.p`, "Probability must be between 0 and 1")
+      break
+    case "poisson":
+      if (typeof raw.mean !== "number" || raw.mean <= 0 || raw.mean > MAX_ROLL_COUNT) {
+        add(`${at}.mean`, `Mean must be above 0 and at most ${MAX_ROLL_COUNT}`)
+      }
+      break
+    default:
+      add(`${at}.type`, `Unknown distribution type ${describe(raw.type)}`)
+  }
+  return issues
+}
+
+/**
+ * Validates an untrusted value (usually parsed JSON) against the LootConfig schema.
+ * Checks types, negative weights, duplicate names, unknown rarities, pool chains,
+ * catalog references and weight sums above POOL_BASE_WEIGHT.
+ * @param raw - Value to check
+ * @param catalog - Items the pools may reference (default: ITEM_CATALOG)
+ * @returns The typed config, or every issue found
+ * @example
+ * const result = validateLootConfig(JSON.parse(text))
+ * if (!result.ok) console.log(result.issues.map((i) => `${i.path}: ${i.message}`))
+ */
+export const validateLootConfig = (raw: unknown, catalog: ItemCatalog = ITEM_CATALOG): ConfigValidation => {
+  const issues: ConfigIssue[] = []
+  const add = (path: string, message: string) => {
+    issues.push({ path, message })
+  }
+
+  if (!isRecord(raw)) {
+    return { ok: false, issues: [{ path: "", message: "Config must be a JSON object" }] }
+  }
+
+  if (!Array.isArray(raw.pools) || raw.pools.length === 0) {
+    add("pools", "Expected a non-empty array of pools")
+  } else {
+    const poolNames = new Set<string>()
+
+    raw.pools.forEach((pool: unknown, poolIdx) => {
+      const at = `pools[${poolIdx}]`
+      if (!isRecord(pool)) {
+        add(at, "Pool must be an object")
+        return
+      }
+
+      if (typeof pool.name !== "string" || pool.name === "") {
+        add(`${at}.name`, "Pool name must be a non-empty string")
+      } else if (poolNames.has(pool.name)) {
+        add(`${at}.name`, `Duplicate pool name "${pool.name}"`)
+      } else {
+        poolNames.add(pool.name)
+      }
+
+      if (pool.duplicateProtection !== undefined) {
+        const protection = pool.duplicateProtection
+        if (!isRecord(protection) || !isChance(protection.ownedWeight)) {
+          add(`${at}.duplicateProtection`, "Duplicate protection needs an `ownedWeight` between 0 and 1")
+        } else if (poolIdx === 0) {
+          add(`${at}.duplicateProtection`, "The rarity pool has no items to protect")
+        }
+      }
+
+      if (!Array.isArray(pool.entries) || pool.entries.length === 0) {
+        add(`${at}.entries`, "Expected a non-empty array of entries")
+        return
+      }
+
+      const entryNames = new Set<string>()
+      pool.entries.forEach((entry: unknown, entryIdx) => {
+        const entryAt = `${at}.entries[${entryIdx}]`
+        if (!isRecord(entry)) {
+          add(entryAt, "Entry must be an object")
+          return
+        }
+
+        if (typeof entry.name !== "string" || entry.name === "") {
+          add(`${entryAt}.name`, "Entry name must be a non-empty string")
+        } else if (entryNames.has(entry.name)) {
+          add(`${entryAt}.name`, `Duplicate entry "${entry.name}" in pool "${String(pool.name)}"`)
+        } else {
+          entryNames.add(entry.name)
+          if (poolIdx === 0 && !isRarity(entry.name)) add(`${entryAt}.name`, `Unknown rarity "${entry.name}"`)
+        }
+
+        if (typeof entry.weight !== "number" || !Number.isFinite(entry.weight)) {
+          add(`${entryAt}.weight`, `Weight must be a number, got ${describe(entry.weight)}`)
+        } else if (entry.weight < 0) {
+          add(`${entryAt}.weight`, `Negative weight (${entry.weight}) for "${String(entry.name)}"`)
+        }
+
+        if (entry.pool !== undefined && typeof entry.pool !== "string") {
+          add(`${entryAt}.pool`, "Chained pool must be a pool name")
+        }
+      })
+    })
+  }
+
+  if (raw.pity !== undefined) {
+    if (Array.isArray(raw.pity)) {
+      raw.pity.forEach((rule: unknown, i) => {
+        const at = `pity[${i}]`
+        if (!isRecord(rule)) {
+          add(at, "Pity rule must be an object")
+          return
+        }
+        if (typeof rule.rarity !== "string" || !isRarity(rule.rarity)) {
+          add(`${at}.rarity`, `Unknown rarity ${describe(rule.rarity)}`)
+        }
+        if (!isCount(rule.within, 1)) add(`${at}.within`, "Pity must trigger within a whole number of rolls (>= 1)")
+      })
+    } else {
+      add("pity", "Expected an array of pity rules")
+    }
+  }
+
+  if (raw.softPity !== undefined) {
+    if (Array.isArray(raw.softPity)) {
+      raw.softPity.forEach((rule: unknown, i) => {
+        const at = `softPity[${i}]`
+        if (!isRecord(rule)) {
+          add(at, "Soft pity rule must be an object")
+          return
+        }
+        if (typeof rule.rarity !== "string" || !isRarity(rule.rarity)) {
+          add(`${at}.rarity`, `Unknown rarity ${describe(rule.rarity)}`)
+        }
+        if (!isCount(rule.start, 0)) add(`${at}.start`, "Start must be a whole number of rolls (>= 0)")
+
+        const curve = rule.curve
+        if (!isRecord(curve) || typeof curve.type !== "string" || !CURVE_TYPES.includes(curve.type)) {
+          add(`${at}.curve`, `Curve type must be one of ${CURVE_TYPES.join(", ")}`)
+        } else if (curve.type === "linear" && !(typeof curve.step === "number" && curve.step > 0)) {
+          add(`${at}.curve.step`, "Linear step must be a positive number")
+        } else if (curve.type === "exponential" && !(typeof curve.base === "number" && curve.base > 1)) {
+          add(`${at}.curve.base`, "Exponential base must be greater than 1")
+        } else if (curve.type === "steps") {
+          if (!Array.isArray(curve.table) || curve.table.length === 0) {
+            add(`${at}.curve.table`, "Expected a non-empty array of steps")
+          } else {
+            curve.table.forEach((step: unknown, j) => {
+              if (
+                !isRecord(step) ||
+                !isCount(step.after, 0) ||
+                typeof step.multiplier !== "number" ||
+                step.multiplier < 0
+              ) {
+                add(`${at}.curve.table[${j}]`, "Step needs a whole `after` (>= 0) and a non-negative `multiplier`")
+              }
+            })
+          }
+        }
+      })
+    } else {
+      add("softPity", "Expected an array of soft pity rules")
+    }
+  }
+
+  if (raw.chests !== undefined) {
+    if (isRecord(raw.chests)) {
+      for (const [type, chest] of Object.entries(raw.chests)) {
+        const at = `chests.${type}`
+        if (!isRecord(chest)) {
+          add(at, "Chest config must be an object")
+          continue
+        }
+        for (const key of ["name", "color"]) {
+          if (chest[key] !== undefined && (typeof chest[key] !== "string" || chest[key] === "")) {
+            add(`${at}.${key}`, "Expected a non-empty string")
+          }
+        }
+        if (chest.skin !== undefined) {
+          const skin = chest.skin
+          if (!isRecord(skin)) add(`${at}.skin`, "Expected an object of colors")
+          else {
+            for (const key of SKIN_COLORS) {
+              if (typeof skin[key] !== "string") add(`${at}.skin.${key}`, "Expected a CSS color")
+            }
+          }
+        }
+        if (!Array.isArray(chest.excludeRarities)) {
+          add(`${at}.excludeRarities`, "Expected an array of rarities")
+        } else {
+          chest.excludeRarities.forEach((rarity: unknown, i) => {
+            if (typeof rarity !== "string" || !isRarity(rarity)) {
+              add(`${at}.excludeRarities[${i}]`, `Unknown rarity ${describe(rarity)}`)
+            }
+          })
+        }
+        if (!isCount(chest.maxRolls, 1, MAX_ROLL_COUNT)) {
+          add(`${at}.maxRolls`, `Max rolls must be a whole number from 1 to ${MAX_ROLL_COUNT}`)
+        }
+        if (chest.minRolls !== undefined) {
+          if (!isCount(chest.minRolls, 1)) add(`${at}.minRolls`, "Min rolls must be a whole number (>= 1)")
+          else if (isCount(chest.maxRolls, 1) && chest.minRolls > chest.maxRolls) {
+            add(`${at}.minRolls`, `Min rolls (${chest.minRolls}) above max rolls (${chest.maxRolls})`)
+          }
+        }
+        if (chest.rolls !== undefined) issues.push(...getDistributionIssues(chest.rolls, `${at}.rolls`))
+        if (chest.fragmentCost !== undefined && !isCount(chest.fragmentCost, 1)) {
+          add(`${at}.fragmentCost`, "Fragment cost must be a whole number (>= 1)")
+        }
+        if (chest.upgrades !== undefined) {
+          if (Array.isArray(chest.upgrades)) {
+            let total = 0
+            chest.upgrades.forEach((upgrade: unknown, i) => {
+              if (!isRecord(upgrade) || typeof upgrade.chestType !== "string" || !isChance(upgrade.chance)) {
+                add(`${at}.upgrades[${i}]`, "Upgrade needs a `chestType` and a `chance` between 0 and 1")
+              } else {
+                total += upgrade.chance
+              }
+            })
+            if (total > 1) add(`${at}.upgrades`, `Upgrade chances sum to ${total}, above 1`)
+          } else {
+            add(`${at}.upgrades`, "Expected an array of upgrades")
+          }
+        }
+        if (chest.guarantees !== undefined) {
+          if (Array.isArray(chest.guarantees)) {
+            chest.guarantees.forEach((rule: unknown, i) => {
+              const ruleAt = `${at}.guarantees[${i}]`
+              if (!isRecord(rule)) {
+                add(ruleAt, "Slot guarantee must be an object")
+                return
+              }
+              if (rule.slot !== "last" && rule.slot !== "any") {
+                add(`${ruleAt}.slot`, `Unknown slot ${describe(rule.slot)}, expected "last" or "any"`)
+              }
+              if (typeof rule.minRarity !== "string" || !isRarity(rule.minRarity)) {
+                add(`${ruleAt}.minRarity`, `Unknown rarity ${describe(rule.minRarity)}`)
+              }
+              if (rule.minItems !== undefined && !isCount(rule.minItems, 1)) {
+                add(`${ruleAt}.minItems`, "Min items must be a whole number (>= 1)")
+              }
+            })
+          } else {
+            add(`${at}.guarantees`, "Expected an array of slot guarantees")
+          }
+        }
+        if (chest.weightOverrides !== undefined) {
+          if (isRecord(chest.weightOverrides)) {
+            for (const [rarity, weight] of Object.entries(chest.weightOverrides)) {
+              if (!isRarity(rarity)) add(`${at}.weightOverrides.${rarity}`, `Unknown rarity "${rarity}"`)
+              if (typeof weight !== "number" || !Number.isFinite(weight)) {
+                add(`${at}.weightOverrides.${rarity}`, `Weight must be a number, got ${describe(weight)}`)
+              } else if (weight < 0) {
+                add(`${at}.weightOverrides.${rarity}`, `Negative weight (${weight}) for "${rarity}"`)
+              }
+            }
+          } else {
+            add(`${at}.weightOverrides`, "Expected an object of rarity weights")
+          }
+        }
+      }
+    } else {
+      add("chests", "Expected an object of chest configs")
+    }
+  }
+
+  // Semantic checks need a structurally valid config
+  if (issues.length > 0) return { ok: false, issues }
+
+  const config: LootConfig = {
+    pools: raw.pools as LootConfig["pools"],
+    ...(raw.pity !== undefined && { pity: raw.pity as LootConfig["pity"] }),
+    ...(raw.softPity !== undefined && { softPity: raw.softPity as LootConfig["softPity"] }),
+    ...(raw.chests !== undefined && { chests: raw.chests as LootConfig["chests"] }),
+  }
+
+  const root = config.pools[0]
+  const rootSum = root.entries.reduce((acc, e) => acc + e.weight, 0)
+  if (rootSum > POOL_BASE_WEIGHT) {
+    add("pools[0]", `Pool sum (${rootSum}) exceeds base weight (${POOL_BASE_WEIGHT})`)
+  } else if (rootSum === 0) {
+    add("pools[0]", `Pool "${root.name}" has no weight to roll from`)
+  }
+
+  const chests = resolveChests(config)
+  for (const type of Object.keys(chests)) {
+    for (const [i, upgrade] of (chests[type].upgrades ?? []).entries()) {
+      if (!(upgrade.chestType in chests)) {
+        add(`chests.${type}.upgrades[${i}].chestType`, `Unknown chest type "${upgrade.chestType}"`)
+      }
+    }
+    const sum = getChestEntries(root.entries, chests[type]).reduce((acc, e) => acc + e.weight, 0)
+    // Without overrides a chest can only remove weight from the (already checked) root pool
+    if (sum > POOL_BASE_WEIGHT && chests[type].weightOverrides) {
+      add(`chests.${type}`, `Chest "${type}" weights sum to ${sum}, above base weight (${POOL_BASE_WEIGHT})`)
+    } else if (sum === 0) {
+      add(`chests.${type}`, `Chest "${type}" has no rarity left to roll`)
+    }
+  }
+
+  issues.push(...getPoolChainIssues(config), ...getCatalogIssues(config, catalog))
+
+  return issues.length > 0 ? { ok: false, issues } : { ok: true, config }
+}
+
+/**
+ * Parses and validates a loot config file.
+ * @param text - JSON file content
+ * @returns The typed config, or every issue found (including JSON syntax errors)
+ */
+export const parseLootConfig = (text: string, catalog: ItemCatalog = ITEM_CATALOG): ConfigValidation => {
+  let raw: unknown
+  try {
+    raw = JSON.parse(text)
+  } catch (error) {
+    return { ok: false, issues: [{ path: "", message: `Invalid JSON: ${(error as Error).message}` }] }
+  }
+  return validateLootConfig(raw, catalog)
+}
+
+/**
+ * Serializes a loot config to JSON, with every chest config spelled out.
+ * @param config - Config to export
+ * @returns Pretty-printed JSON that parseLootConfig accepts
+ */
+export const serializeLootConfig = (config: LootConfig): string => {
+  return JSON.stringify({ ...config, chests: resolveChests(config) }, null, 2)
+}
@@ -0,0 +1,79 @@
+/**
+ * Crafting: spare copies of one rarity are fused into a roll of a higher rarity.
+ * The roll itself goes through the loot engine (see LootEngine.craft), only the inputs are picked here.
+ */
+
+import { ITEM_CATALOG, type ItemCatalog } from "@/assets/items.ts"
+import type { Rarity } from "@/lib/loot/rarity.ts"
+
+/** Inventory source of crafted items, in place of a chest type */
+export const CRAFT_SOURCE = "craft"
+
+export type CraftingRecipe = {
+  id: string
+  /** Rarity of the items consumed */
+  input: Rarity
+  /** Copies consumed, whether the craft succeeds or not */
+  count: number
+  /** Rarity rolled on success */
+  output: Rarity
+  /** Success chance (0-1) */
+  chance: number
+}
+
+/** One craft, as recorded in the session */
+export type CraftRecord = {
+  /** Epoch milliseconds */
+  at: number
+  recipe: string
+  consumed: { item: string; count: number }[]
+  /** Crafted catalog item id, null when the craft failed */
+  item: string | null
+  rarity: Rarity
+}
+
+/**
+ * Spare copies (beyond the first) of every owned item of a rarity.
+ * @param owned - Owned copies keyed by catalog item id
+ * @param rarity - Rarity to count
+ * @param catalog - Item catalog (default: ITEM_CATALOG)
+ */
+export const getSpareCopies = (
+  owned: Record<string, { count: number }>,
+  rarity: Rarity,
+  catalog: ItemCatalog = ITEM_CATALOG,
+): number => {
+  return Object.entries(owned)
+    .filter(([item]) => catalog[item]?.rarity === rarity)
+    .reduce((acc, [, entry]) => acc + Math.max(entry.count - 1, 0), 0)
+}
+
+/**
+ * Picks the copies a recipe consumes: spare copies only, from the most duplicated items first,
+ * so crafting never costs a collection entry.
+ * @param owned - Owned copies keyed by catalog item id
+ * @param recipe - Recipe to craft
+ * @param catalog - Item catalog (default: ITEM_CATALOG)
+ * @returns Copies to remove per item, or null when there aren't enough spares
+ * @example pickCraftingInputs({ "rusty-dagger": { count: 6 } }, recipe) // [{ item: "rusty-dagger", count: 5 }]
+ */
+export const pickCraftingInputs = (
+  owned: Record<string, { count: number }>,
+  recipe: CraftingRecipe,
+  catalog: ItemCatalog = ITEM_CATALOG,
+): { item: string; count: number }[] | null => {
+  const spares = Object.entries(owned)
+    .filter(([item, entry]) => catalog[item]?.rarity === recipe.input && entry.count > 1)
+    .map(([item, entry]) => ({ item, count: entry.count - 1 }))
+    .sort((a, b) => b.count - a.count)
+
+  const picked: { item: string; count: number }[] = []
+  let missing = recipe.count
+  for (const spare of spares) {
+    if (missing === 0) break
+    const count = Math.min(spare.count, missing)
+    picked.push({ item: spare.item, count })
+    missing -= count
+  }
+  return missing === 0 ? picked : null
+}
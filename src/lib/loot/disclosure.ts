@@ -0,0 +1,311 @@
+/**
+ * Player-facing drop rate disclosure, generated from the live loot config so it can't drift from the engine.
+ * Rendered in the app and exportable as plain text or HTML.
+ */
+
+import { featuredBanners } from "@/assets/banners.ts"
+import { timedEvents } from "@/assets/events.ts"
+import { ITEM_CATALOG, type ItemCatalog } from "@/assets/items.ts"
+import type { LootConfig, PityRule, SoftPityRule } from "@/assets/pools.ts"
+import { CRAFTING_RECIPES } from "@/assets/recipes.ts"
+import { DEFAULT_RATE_UP, type FeaturedBanner } from "@/lib/loot/banners.ts"
+import type { CraftingRecipe } from "@/lib/loot/crafting.ts"
+import {
+  type ChestConfig,
+  type ChestType,
+  createLootEngine,
+  getFragmentCosts,
+  HOT_STREAK,
+  type SlotGuarantee,
+  X2_EVENT,
+} from "@/lib/loot/engine.ts"
+import { describeEventModifiers, describeEventSchedule, type TimedEvent } from "@/lib/loot/events.ts"
+import { getItemCountDistribution } from "@/lib/loot/odds.ts"
+import { SALVAGE_YIELDS } from "@/lib/loot/salvage.ts"
+
+export type DisclosedRarity = {
+  name: string
+  /** Chance (0-1) of each item dropping at this rarity */
+  chance: number
+  /** Chance (0-1) during a hot streak */
+  hotStreakChance: number
+  /** Chance (0-1) of each item once this rarity is rolled, duplicate protection included */
+  items: { name: string; chance: number }[]
+}
+
+export type DisclosedChest = {
+  chestType: ChestType
+  name: string
+  /** Accent color (CSS) */
+  color: string
+  minRolls: number
+  maxRolls: number
+  /** Chance (0-1) of each number of items, before drop multipliers */
+  itemCounts: { count: number; chance: number }[]
+  upgrades: NonNullable<ChestConfig["upgrades"]>
+  guarantees: SlotGuarantee[]
+  rarities: DisclosedRarity[]
+}
+
+export type DropRateDisclosure = {
+  chests: DisclosedChest[]
+  fragmentCosts: { chestType: ChestType; cost: number }[]
+  /** Fragments earned per salvaged copy, by rarity */
+  salvageYields: typeof SALVAGE_YIELDS
+  recipes: CraftingRecipe[]
+  hotStreak: typeof HOT_STREAK
+  x2Event: typeof X2_EVENT
+  timedEvents: TimedEvent[]
+  /** Rarities whose items have duplicate protection, with the weight multiplier of owned items */
+  duplicateProtection: { rarity: string; ownedWeight: number }[]
+  /** Featured items of each banner, grouped by rarity */
+  banners: { banner: FeaturedBanner; tiers: { rarity: string; items: string[] }[] }[]
+  pity: PityRule[]
+  softPity: SoftPityRule[]
+}
+
+/**
+ * Formats a chance (0-1) as a percentage, with more decimals for rare outcomes.
+ * @example formatDisclosedChance(0.0009) // "0.090%"
+ */
+export const formatDisclosedChance = (chance: number) => `${(chance * 100).toFixed(chance < 0.01 ? 3 : 2)}%`
+
+const ORDINAL_SUFFIXES: Record<string, string> = { one: "st", two: "nd", few: "rd", other: "th" }
+const ordinalRules = new Intl.PluralRules("en", { type: "ordinal" })
+
+/** @example formatOrdinal(22) // "22nd" */
+const formatOrdinal = (n: number) => `${n}${ORDINAL_SUFFIXES[ordinalRules.select(n)]}`
+
+/**
+ * Builds the disclosure for a loot config.
+ * @param config - Live loot config
+ * @param catalog - Items used for display names (default: ITEM_CATALOG)
+ * @param events - Scheduled events (default: the event calendar)
+ * @param banners - Featured banners (default: the banner calendar)
+ * @param isOwned - Whether the player owns a catalog item, for duplicate protection (default: nothing owned)
+ * @returns Per-chest rarity and item odds, plus every modifier a player can run into
+ */
+export const getDropRateDisclosure = (
+  config: LootConfig,
+  catalog: ItemCatalog = ITEM_CATALOG,
+  events: TimedEvent[] = timedEvents,
+  banners: FeaturedBanner[] = featuredBanners,
+  isOwned: (item: string) => boolean = () => false,
+): DropRateDisclosure => {
+  const engine = createLootEngine(config, { catalog, isOwned })
+  const chestConfigs = engine.getChests()
+  const root = config.pools[0]
+  const poolsByName = new Map(config.pools.map((pool) => [pool.name, pool]))
+
+  const getItems = (rarity: string) => {
+    const poolName = root.entries.find((entry) => entry.name === rarity)?.pool
+    if (!poolName) return []
+    return Object.entries(engine.getPoolProbabilities(poolName))
+      .filter(([, chance]) => chance > 0)
+      .map(([name, chance]) => ({ name: catalog[name]?.name ?? name, chance }))
+  }
+
+  const chests = (Object.keys(chestConfigs) as ChestType[]).map((chestType) => {
+    const chances = engine.getLootProbabilities(chestType)
+    const hotStreakChances = engine.getLootProbabilities(chestType, HOT_STREAK.boost)
+    const chest = chestConfigs[chestType]
+    const itemCounts = getItemCountDistribution(chest, 1)
+    return {
+      chestType,
+      name: chest.name,
+      color: chest.color,
+      minRolls: itemCounts[0]?.count ?? 0,
+      maxRolls: itemCounts[itemCounts.length - 1]?.count ?? 0,
+      itemCounts,
+      upgrades: chest.upgrades ?? [],
+      guarantees: chest.guarantees ?? [],
+      rarities: Object.keys(chances)
+        .filter((name) => chances[name] > 0 || hotStreakChances[name] > 0)
+        .map((name) => ({
+          name,
+          chance: chances[name],
+          hotStreakChance: hotStreakChances[name] ?? 0,
+          items: getItems(name),
+        })),
+    }
+  })
+
+  return {
+    chests,
+    fragmentCosts: getFragmentCosts(chestConfigs),
+    salvageYields: SALVAGE_YIELDS,
+    recipes: CRAFTING_RECIPES,
+    hotStreak: HOT_STREAK,
+    x2Event: X2_EVENT,
+    timedEvents: events,
+    duplicateProtection: root.entries.flatMap((entry) => {
+      const protection = poolsByName.get(entry.pool ?? "")?.duplicateProtection
+      return protection ? [{ rarity: entry.name, ownedWeight: protection.ownedWeight }] : []
+    }),
+    banners: banners.map((banner) => {
+      const tiers = new Map<string, string[]>()
+      for (const entry of banner.featured) {
+        const item = catalog[entry.name]
+        if (!item || entry.weight <= 0) continue
+        tiers.set(item.rarity, [...(tiers.get(item.rarity) ?? []), item.name])
+      }
+      return { banner, tiers: [...tiers].map(([rarity, items]) => ({ rarity, items })) }
+    }),
+    pity: config.pity ?? [],
+    softPity: config.softPity ?? [],
+  }
+}
+
+/**
+ * Chance of each number of items a chest drops.
+ * @example formatItemCounts(chest) // "1 33.33% · 2 33.33% · 3 33.33%"
+ */
+export const formatItemCounts = (chest: DisclosedChest) =>
+  chest.itemCounts.map(({ count, chance }) => `${count} ${formatDisclosedChance(chance)}`).join(" · ")
+
+/**
+ * Describes a chest slot guarantee.
+ * @example describeSlotGuarantee({ slot: "any", minRarity: "epic", minItems: 2 }) // "every opening of 2+ items contains at least one epic or better item"
+ */
+export const describeSlotGuarantee = (rule: SlotGuarantee) => {
+  const openings = (rule.minItems ?? 1) > 1 ? `every opening of ${rule.minItems}+ items` : "every opening"
+  return rule.slot === "last"
+    ? `the last item of ${openings} is ${rule.minRarity} or better`
+    : `${openings} contains at least one ${rule.minRarity} or better item`
+}
+
+/** Plain sentences describing the modifiers, shared by every output format */
+export const getDisclosureRules = (disclosure: DropRateDisclosure): string[] => {
+  const {
+    chests,
+    fragmentCosts,
+    salvageYields,
+    recipes,
+    hotStreak,
+    x2Event,
+    timedEvents,
+    duplicateProtection,
+    banners,
+    pity,
+    softPity,
+  } = disclosure
+  const names = new Map(chests.map((chest) => [chest.chestType, chest.name]))
+  const nameOf = (chestType: ChestType) => names.get(chestType) ?? chestType
+  return [
+    `The number of items a chest drops is rolled with the chances listed for that chest, before drop events.`,
+    ...chests
+      .filter((chest) => chest.upgrades.length > 0)
+      .map(
+        (chest) =>
+          `A ${chest.name} is upgraded when opened: ${chest.upgrades
+            .map((u) => `${formatDisclosedChance(u.chance)} to ${nameOf(u.chestType)}`)
+            .join(", ")}.`,
+      ),
+    ...chests.flatMap((chest) =>
+      chest.guarantees.map(
+        (rule) =>
+          `${chest.name} guarantee: ${describeSlotGuarantee(rule)}; when needed, the last item is rolled among those rarities only.`,
+      ),
+    ),
+    ...(fragmentCosts.length > 0
+      ? [
+          `Each opening earns 1 fragment, salvaging an item earns ${Object.entries(salvageYields)
+            .map(([rarity, fragments]) => `${fragments} per ${rarity}`)
+            .join(", ")}. Fragments are only spent when you trade them for a chest key: ${fragmentCosts
+            .map((f) => `${f.cost} for ${nameOf(f.chestType)}`)
+            .join(", ")}. Keys are stored until you pick them, and open their chest without an upgrade roll.`,
+        ]
+      : []),
+    ...(recipes.length > 0
+      ? [
+          `Crafting uses up spare copies, even when it fails: ${recipes
+            .map((r) => `${r.count} ${r.input} for a ${formatDisclosedChance(r.chance)} chance of one ${r.output} item`)
+            .join(", ")}. A crafted item is picked like a dropped item of that rarity.`,
+        ]
+      : []),
+    `Hot streak: after a ${hotStreak.minRarity} or better drop, the next ${hotStreak.openings.min}-${hotStreak.openings.max} openings multiply the weight of rare and better rarities by ${hotStreak.boost}.`,
+    `Drop event: every ${x2Event.every.min}-${x2Event.every.max} openings, the next ${x2Event.openings.min}-${x2Event.openings.max} openings drop x${x2Event.multiplier} items (up to twice the chest maximum).`,
+    ...timedEvents.map(
+      (event) =>
+        `Scheduled event "${event.name}", ${describeEventSchedule(event.schedule)}: ${describeEventModifiers(event.modifiers).toLowerCase()}.`,
+    ),
+    ...duplicateProtection.map(
+      ({ rarity, ownedWeight }) =>
+        `Duplicate protection: until you own every ${rarity} item, ${ownedWeight === 0 ? "the ones you own never drop" : `the ones you own are ${formatDisclosedChance(ownedWeight)} as likely`}. Item chances shown include it.`,
+    ),
+    ...banners.flatMap(({ banner, tiers }) =>
+      tiers.map(
+        ({ rarity, items }) =>
+          `Featured banner "${banner.name}", ${describeEventSchedule(banner.schedule)}: each ${rarity} item has a ${formatDisclosedChance(banner.rateUp ?? DEFAULT_RATE_UP)} chance to be ${items.join(" or ")}. After a miss, the next ${rarity} item is always featured.`,
+      ),
+    ),
+    ...pity.map(
+      (rule) =>
+        `Guarantee: a ${rule.rarity} or better item drops at the latest on the ${formatOrdinal(rule.within)} item without one.`,
+    ),
+    ...softPity.map(
+      (rule) =>
+        `Increasing odds: after ${rule.start} items without a ${rule.rarity} or better, its chance grows with every item.`,
+    ),
+    `Guarantees and increasing odds are counted separately for each chest type.`,
+  ]
+}
+
+/**
+ * Renders the disclosure as plain text.
+ * @param disclosure - Disclosure to render
+ * @returns Text with one section per chest
+ */
+export const disclosureToText = (disclosure: DropRateDisclosure): string => {
+  const lines = ["DROP RATES", ""]
+  for (const chest of disclosure.chests) {
+    lines.push(`${chest.name.toUpperCase()} (${chest.minRolls}-${chest.maxRolls} items)`)
+    lines.push(`  items: ${formatItemCounts(chest)}`)
+    for (const rarity of chest.rarities) {
+      lines.push(
+        `  ${rarity.name}: ${formatDisclosedChance(rarity.chance)} (hot streak: ${formatDisclosedChance(rarity.hotStreakChance)})`,
+      )
+      for (const item of rarity.items)
+        lines.push(`    - ${item.name}: ${formatDisclosedChance(item.chance)} of ${rarity.name} drops`)
+    }
+    lines.push("")
+  }
+  lines.push("RULES", ...getDisclosureRules(disclosure).map((rule) => `- ${rule}`))
+  return lines.join("\n")
+}
+
+const escapeHtml = (text: string) =>
+  text.replaceAll("&", "&amp;").replaceAll("<", "&lt;").replaceAll(">", "&gt;").replaceAll('"', "&quot;")
+
+/**
+ * Renders the disclosure as a standalone HTML page.
+ * @param disclosure - Disclosure to render
+ * @returns HTML document with one table per chest
+ */
+export const disclosureToHtml = (disclosure: DropRateDisclosure): string => {
+  const sections = disclosure.chests.map((chest) => {
+    const rows = chest.rarities.map((rarity) => {
+      const items = rarity.items
+        .map((item) => `${escapeHtml(item.name)} ${formatDisclosedChance(item.chance)}`)
+        .join(", ")
+      return `<tr><td>${escapeHtml(rarity.name)}</td><td>${formatDisclosedChance(rarity.chance)}</td><td>${formatDisclosedChance(rarity.hotStreakChance)}</td><td>${items}</td></tr>`
+    })
+    return [
+      `<h2>${escapeHtml(chest.name)} (${chest.minRolls}-${chest.maxRolls} items)</h2>`,
+      `<p>Items: ${formatItemCounts(chest)}</p>`,
+      "<table><thead><tr><th>Rarity</th><th>Chance</th><th>Hot streak</th><th>Items (chance within rarity)</th></tr></thead>",
+      `<tbody>${rows.join("")}</tbody></table>`,
+    ].join("\n")
+  })
+  const rules = getDisclosureRules(disclosure).map((rule) => `<li>${escapeHtml(rule)}</li>`)
+
+  return [
+    "<!doctype html>",
+    '<html lang="en"><head><meta charset="utf-8"><title>Drop Rates</title></head><body>',
+    "<h1>Drop Rates</h1>",
+    ...sections,
+    "<h2>Rules</h2>",
+    `<ul>${rules.join("")}</ul>`,
+    "</body></html>",
+  ].join("\n")
+}
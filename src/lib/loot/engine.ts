@@ -0,0 +1,751 @@
+/**
+ * Framework-free loot engine.
+ * Holds every roll rule (chest filtering, weight overrides, rarity boost, roll counting)
+ * so the same drop logic runs in React, workers, Node scripts and tests.
+ */
+
+import { CHEST_CONFIGS } from "@/assets/chests.ts"
+import { ITEM_CATALOG, type ItemCatalog } from "@/assets/items.ts"
+import type { LootConfig, LootEntry, LootPool, PityRule, SoftPityRule } from "@/assets/pools.ts"
+import { type BannerProgress, createBannerProgress, DEFAULT_RATE_UP, type FeaturedBanner } from "@/lib/loot/banners.ts"
+import type { CraftingRecipe } from "@/lib/loot/crafting.ts"
+import { getRarityIdx } from "@/lib/loot/rarity.ts"
+import { clamp, toPercentage } from "@/lib/math.ts"
+import { type CountDistribution, randomSeed, type SeededUtils, sampleCount, seededUtils } from "@/lib/random.ts"
+
+export const POOL_BASE_WEIGHT = 10000
+
+/** Chest id, a key of CHEST_CONFIGS or of `LootConfig.chests` */
+export type ChestType = string
+
+/** Chest skin colors (CSS), the plain wooden chest when omitted */
+export type ChestSkin = {
+  lid: string
+  body: string
+  /** Borders and shading */
+  dark: string
+  lock: string
+  glow: string
+}
+
+/**
+ * Slot rule of a chest, checked on the last item of every opening (after multipliers).
+ * "last": the last item always rolls `minRarity` or better.
+ * "any": the last item is forced only when no earlier item of the opening reached `minRarity`.
+ */
+export type SlotGuarantee = {
+  slot: "last" | "any"
+  minRarity: string
+  /** Openings dropping fewer items are left alone (default: 1) */
+  minItems?: number
+}
+
+export type ChestConfig = {
+  /** Display name */
+  name: string
+  /** Accent color (CSS) of the chest labels and event banner */
+  color: string
+  skin?: ChestSkin
+  excludeRarities: string[]
+  /** Fewest items an opening drops with the default uniform roll count (default: 1) */
+  minRolls?: number
+  /** Most items an opening drops before multipliers, roll counts above it are capped */
+  maxRolls: number
+  /** Items per opening before multipliers (default: uniform from minRolls to maxRolls) */
+  rolls?: CountDistribution
+  weightOverrides?: Record<string, number>
+  /** Fragments traded for a key to this chest, stored until the player opens it */
+  fragmentCost?: number
+  /** Chance (0-1) of each upgrade when this chest is opened, checked in order */
+  upgrades?: { chestType: ChestType; chance: number }[]
+  /** Rarity floors of the last item, the highest applicable one wins */
+  guarantees?: SlotGuarantee[]
+}
+
+/** Chest config as found in a loot config: display fields fall back to the built-in chest or the id */
+export type ChestOverride = Omit<ChestConfig, "name" | "color"> & Partial<Pick<ChestConfig, "name" | "color">>
+
+/** After a drop of `minRarity` or better, the next `openings` chests roll with a rarity boost */
+export const HOT_STREAK = { boost: 1.5, minRarity: "rare", openings: { min: 2, max: 3 } }
+
+/** Random drop event: every `every` openings, the next `openings` chests drop `multiplier` times the items */
+export const X2_EVENT = { multiplier: 2, every: { min: 30, max: 60 }, openings: { min: 3, max: 5 } }
+
+export const RARE_PLUS_NAMES = ["rare", "epic", "legendary", "mythic"]
+
+/** Mutable counters kept outside the engine so they survive a config change */
+export type LootEngineState = {
+  rollCount: number
+  /** Rolls since the last drop at or above each (soft) pity rarity, per chest type */
+  pity: Partial<Record<ChestType, Record<string, number>>>
+  /**
+   * Expected number of drops of each rarity so far: the sum of the probabilities each roll was made with,
+   * after chest config, rarity boost and (soft) pity
+   */
+  expected: Record<string, number>
+  /** Rate-up guarantees and drop counters, per banner id */
+  banners: Record<string, BannerProgress>
+}
+
+export type LootEngineOptions = {
+  /** Random source, defaults to a freshly seeded one */
+  rng?: SeededUtils
+  /** Counters to resume from, mutated in place */
+  state?: LootEngineState
+  /** Catalog item pool entries must point at, defaults to ITEM_CATALOG */
+  catalog?: ItemCatalog
+  /** Whether the player owns a catalog item, read by pool duplicate protection (default: nothing owned) */
+  isOwned?: (item: string) => boolean
+}
+
+/** A single rolled item and the rarity (root pool entry) it was rolled under */
+export type Drop = {
+  /** Catalog item id, or the rarity name when the rarity has no item pool */
+  item: string
+  rarity: string
+  /** Set when a pity rule forced the rarity */
+  pity?: boolean
+  /** Set when a chest slot guarantee forced the rarity */
+  guaranteed?: boolean
+  /** Set when a banner rate-up picked a featured item */
+  featured?: boolean
+  /** Set when the item was crafted rather than dropped by a chest */
+  crafted?: boolean
+}
+
+export type PityProgress = PityRule & {
+  /** Rolls without a drop at or above the rule rarity */
+  count: number
+  /** Rolls left until the guarantee, the last one included */
+  remaining: number
+}
+
+export type GetLootsOptions = {
+  /** Replaces the chest roll count with a uniform count from 1 to `max` */
+  max?: number
+  chestType?: ChestType
+  multiplier?: number
+  rarityBoost?: number
+  /** Running banner, its featured items get a rate-up */
+  banner?: FeaturedBanner
+}
+
+/**
+ * Merges the chests of a loot config over the built-in ones.
+ * @param config - Loot config, its chests override or extend CHEST_CONFIGS
+ * @returns Every chest keyed by id, built-in ones first
+ */
+export const resolveChests = (config: LootConfig): Record<ChestType, ChestConfig> => {
+  const chests: Record<ChestType, ChestConfig> = { ...CHEST_CONFIGS }
+  for (const [chestType, chest] of Object.entries(config.chests ?? {})) {
+    const base = CHEST_CONFIGS[chestType]
+    chests[chestType] = {
+      ...chest,
+      name: chest.name ?? base?.name ?? chestType,
+      color: chest.color ?? base?.color ?? "var(--color-legendary)",
+    }
+  }
+  return chests
+}
+
+/**
+ * Chest keys that can be bought with fragments, most expensive first.
+ * @param chests - Chest definitions (default: CHEST_CONFIGS)
+ */
+export const getFragmentCosts = (
+  chests: Record<ChestType, ChestConfig> = CHEST_CONFIGS,
+): { chestType: ChestType; cost: number }[] => {
+  return Object.entries(chests)
+    .filter(([, chest]) => chest.fragmentCost !== undefined && chest.fragmentCost > 0)
+    .map(([chestType, chest]) => ({ chestType, cost: chest.fragmentCost as number }))
+    .sort((a, b) => b.cost - a.cost)
+}
+
+/**
+ * Progress of a fragment balance towards the next chest key.
+ * @param fragments - Fragments owned
+ * @param chests - Chest definitions (default: CHEST_CONFIGS)
+ * @returns The most expensive affordable key, the next one up and the progress (0-1) from one to the other
+ * @example getFragmentProgress(35) // { ready: { chestType: "rare", cost: 20 }, next: { chestType: "epic", cost: 50 }, progress: 0.5 }
+ */
+export const getFragmentProgress = (fragments: number, chests: Record<ChestType, ChestConfig> = CHEST_CONFIGS) => {
+  const costs = getFragmentCosts(chests)
+  const ready = costs.find((entry) => fragments >= entry.cost) ?? null
+  const next = [...costs].reverse().find((entry) => fragments < entry.cost) ?? null
+  const from = ready?.cost ?? 0
+  return { ready, next, progress: next ? (fragments - from) / (next.cost - from) : 1 }
+}
+
+/**
+ * Roll count distribution of a chest, before multipliers and the maxRolls cap.
+ * @param chest - Chest config
+ * @returns `chest.rolls`, or a uniform count from minRolls to maxRolls
+ */
+export const getRollDistribution = (chest: ChestConfig): CountDistribution => {
+  return chest.rolls ?? { type: "uniform", min: Math.min(chest.minRolls ?? 1, chest.maxRolls), max: chest.maxRolls }
+}
+
+/**
+ * Number of items a chest drops once its base roll count is multiplied, capped at twice the chest max.
+ * @param baseCount - Rolled base count (1 to maxRolls)
+ * @param maxRolls - Chest max rolls
+ * @param multiplier - Drop multiplier
+ */
+export const getMultipliedRollCount = (baseCount: number, maxRolls: number, multiplier: number): number => {
+  return Math.min(Math.round(baseCount * multiplier), maxRolls * 2)
+}
+
+/**
+ * Rarity floor the slot guarantees of a chest put on one item of an opening.
+ * @param guarantees - Chest slot rules
+ * @param count - Items in the opening
+ * @param slot - Item index (0-based), only the last one can be forced
+ * @param best - Highest rarity index dropped earlier in the opening (-1 for none)
+ * @returns Rarity index the item must reach, -1 when it rolls freely
+ * @example getSlotFloor([{ slot: "any", minRarity: "rare" }], 10, 9, 0) // 2
+ */
+export const getSlotFloor = (guarantees: SlotGuarantee[], count: number, slot: number, best: number): number => {
+  if (slot !== count - 1) return -1
+  let floor = -1
+  for (const rule of guarantees) {
+    if (count < (rule.minItems ?? 1)) continue
+    const idx = getRarityIdx(rule.minRarity)
+    if (rule.slot === "any" && best >= idx) continue
+    floor = Math.max(floor, idx)
+  }
+  return floor
+}
+
+export const createLootEngineState = (): LootEngineState => ({ rollCount: 0, pity: {}, expected: {}, banners: {} })
+
+/**
+ * Sums the weights of every entry in a pool.
+ * @param pool - Pool to sum
+ * @returns Total weight, 0 for a missing pool
+ */
+export const getPoolSum = (pool: LootPool | undefined): number => {
+  if (!pool?.entries) return 0
+  return pool.entries.reduce((acc, entry) => acc + entry.weight, 0)
+}
+
+/**
+ * Applies the duplicate protection of a pool to its entries.
+ * @param pool - Item pool
+ * @param isOwned - Whether the player owns a catalog item
+ * @returns Entries with owned items reweighted, unchanged once every item of the pool is owned
+ * @example applyDuplicateProtection({ name: "mythic-items", entries, duplicateProtection: { ownedWeight: 0 } }, isOwned)
+ */
+export const applyDuplicateProtection = (pool: LootPool, isOwned: (item: string) => boolean): LootEntry[] => {
+  const protection = pool.duplicateProtection
+  if (!protection) return pool.entries
+
+  const items = pool.entries.filter((e) => !e.pool && e.weight > 0)
+  if (items.every((e) => isOwned(e.name))) return pool.entries
+  return pool.entries.map((e) => (!e.pool && isOwned(e.name) ? { ...e, weight: e.weight * protection.ownedWeight } : e))
+}
+
+/**
+ * Applies a chest config and a rarity boost to pool entries.
+ * @param entries - Base pool entries
+ * @param config - Config of the chest being opened
+ * @param rarityBoost - Multiplier applied to rare+ weights (1 = no boost)
+ * @returns Entries with their effective weights
+ */
+export const getChestEntries = (entries: LootEntry[], config: ChestConfig, rarityBoost = 1): LootEntry[] => {
+  const filteredEntries = entries.filter((e) => !config.excludeRarities.includes(e.name))
+
+  let result = config.weightOverrides
+    ? filteredEntries.map((e) => ({
+        ...e,
+        weight: config.weightOverrides![e.name] ?? e.weight,
+      }))
+    : [...filteredEntries]
+
+  if (rarityBoost > 1) {
+    result = result.map((e) => ({
+      ...e,
+      weight: RARE_PLUS_NAMES.includes(e.name) ? Math.round(e.weight * rarityBoost) : e.weight,
+    }))
+  }
+
+  return result
+}
+
+/**
+ * Weight multiplier of a soft pity rule after a number of dry rolls.
+ * @param rule - Soft pity rule
+ * @param dryRolls - Rolls since the last drop at or above the rule rarity
+ * @returns Multiplier applied to the tier weight (1 before the threshold)
+ * @example getSoftPityMultiplier({ rarity: "epic", start: 60, curve: { type: "linear", step: 0.25 } }, 63) // 2
+ */
+export const getSoftPityMultiplier = (rule: SoftPityRule, dryRolls: number): number => {
+  const past = dryRolls - rule.start + 1
+  if (past < 1) return 1
+
+  const { curve } = rule
+  switch (curve.type) {
+    case "linear":
+      return 1 + curve.step * past
+    case "exponential":
+      return curve.base ** past
+    case "steps": {
+      let multiplier = 1
+      for (const step of curve.table) {
+        if (dryRolls >= step.after) multiplier = step.multiplier
+      }
+      return multiplier
+    }
+  }
+}
+
+/**
+ * Ramps tier weights up according to the soft pity rules.
+ * @param entries - Entries with their chest and boost weights applied
+ * @param rules - Soft pity rules
+ * @param dryRolls - Dry-roll counters keyed by rule rarity
+ * @returns Entries with soft pity applied
+ */
+export const applySoftPity = (
+  entries: LootEntry[],
+  rules: SoftPityRule[],
+  dryRolls: Record<string, number>,
+): LootEntry[] => {
+  if (rules.length === 0) return entries
+
+  return entries.map((e) => {
+    const multiplier = rules
+      .filter((rule) => rule.rarity === e.name)
+      .reduce((acc, rule) => acc * getSoftPityMultiplier(rule, dryRolls[rule.rarity] ?? 0), 1)
+    return multiplier === 1 ? e : { ...e, weight: e.weight * multiplier }
+  })
+}
+
+/** A problem found in a loot config, located by a JSON path such as `pools[1].entries[0].weight` */
+export type ConfigIssue = {
+  path: string
+  message: string
+}
+
+/**
+ * Checks that every `LootEntry.pool` points at an existing pool and that chains never loop.
+ * @param config - Loot tables to check
+ * @returns Every broken chain found
+ */
+export const getPoolChainIssues = (config: LootConfig): ConfigIssue[] => {
+  const issues: ConfigIssue[] = []
+  const poolIndex = new Map(config.pools.map((p, i) => [p.name, i]))
+
+  const visit = (poolIdx: number, path: string[]) => {
+    const pool = config.pools[poolIdx]
+    pool.entries.forEach((entry, entryIdx) => {
+      if (!entry.pool) return
+      const at = `pools[${poolIdx}].entries[${entryIdx}].pool`
+      const nextIdx = poolIndex.get(entry.pool)
+      if (nextIdx === undefined) {
+        issues.push({
+          path: at,
+          message: `Entry "${entry.name}" in pool "${pool.name}" references unknown pool "${entry.pool}"`,
+        })
+        return
+      }
+      const next = config.pools[nextIdx]
+      if (path.includes(next.name)) {
+        issues.push({ path: at, message: `Pool chain loops: ${[...path, next.name].join(" → ")}` })
+        return
+      }
+      if (getPoolSum(next) <= 0) {
+        issues.push({ path: `pools[${nextIdx}]`, message: `Pool "${next.name}" has no weight to roll from` })
+      }
+      visit(nextIdx, [...path, next.name])
+    })
+  }
+
+  if (config.pools[0]) visit(0, [config.pools[0].name])
+  return issues
+}
+
+/**
+ * Checks that every item pool entry points at a catalog item of the rarity it is rolled under.
+ * Root entries without an item pool are not checked, neither are broken chains.
+ * @param config - Loot tables to check
+ * @param catalog - Items the entries may reference
+ * @returns Every bad reference found
+ */
+export const getCatalogIssues = (config: LootConfig, catalog: ItemCatalog): ConfigIssue[] => {
+  const issues: ConfigIssue[] = []
+  const poolIndex = new Map(config.pools.map((p, i) => [p.name, i]))
+  const visited = new Set<string>()
+
+  const visit = (poolIdx: number, rarity: string) => {
+    const pool = config.pools[poolIdx]
+    const key = `${pool.name}:${rarity}`
+    if (visited.has(key)) return
+    visited.add(key)
+
+    pool.entries.forEach((entry, entryIdx) => {
+      const nextIdx = entry.pool ? poolIndex.get(entry.pool) : undefined
+      if (entry.pool) {
+        if (nextIdx !== undefined) visit(nextIdx, rarity)
+        return
+      }
+      const at = `pools[${poolIdx}].entries[${entryIdx}].name`
+      const item = catalog[entry.name]
+      if (!item) {
+        issues.push({ path: at, message: `Entry "${entry.name}" in pool "${pool.name}" is not a catalog item` })
+      } else if (item.rarity !== rarity) {
+        issues.push({
+          path: at,
+          message: `Item "${entry.name}" is ${item.rarity} but pool "${pool.name}" is rolled under ${rarity}`,
+        })
+      }
+    })
+  }
+
+  for (const entry of config.pools[0]?.entries ?? []) {
+    const nextIdx = entry.pool ? poolIndex.get(entry.pool) : undefined
+    if (nextIdx !== undefined) visit(nextIdx, entry.name)
+  }
+  return issues
+}
+
+/**
+ * Creates a loot engine for a config.
+ * The first pool is rolled for the rarity, then chained pools are followed down to an item.
+ * Throws when the rarity pool weights exceed POOL_BASE_WEIGHT, a chain is broken or an item is unknown.
+ * Use validateLootConfig first to report every problem of untrusted input.
+ * @param config - Loot tables to roll from
+ * @param options - Random source and resumable state
+ * @returns Engine with roll and odds helpers
+ * @example
+ * const engine = createLootEngine(lootConfig, { rng: seededUtils(42) })
+ * engine.getLoots({ chestType: "rare" }) // e.g. [{ item: "frost-wand", rarity: "rare" }]
+ */
+export const createLootEngine = (config: LootConfig, options: LootEngineOptions = {}) => {
+  const {
+    rng = seededUtils(randomSeed()),
+    state = createLootEngineState(),
+    catalog = ITEM_CATALOG,
+    isOwned: isOwnedItem = () => false,
+  } = options
+  const pool = config.pools[0]
+  const poolSum = getPoolSum(pool)
+  const poolsByName = new Map(config.pools.map((p) => [p.name, p]))
+
+  if (poolSum > POOL_BASE_WEIGHT) {
+    throw new Error(`Pool sum (${poolSum}) exceeds base weight (${POOL_BASE_WEIGHT})`)
+  }
+  const [issue] = [...getPoolChainIssues(config), ...getCatalogIssues(config, catalog)]
+  if (issue) throw new Error(issue.message)
+
+  const chests = resolveChests(config)
+  // Sessions may still reference a chest the config no longer defines
+  const getChest = (chestType: ChestType) => chests[chestType] ?? chests.normal
+
+  const getPoolName = () => pool?.name ?? "Unknow Pool"
+
+  /**
+   * Raw probability (0-1) of each entry for a single roll of the given chest.
+   * Pass dry-roll counters to include soft pity, hard pity is not applied.
+   */
+  const getLootProbabilities = (
+    chestType: ChestType = "normal",
+    rarityBoost = 1,
+    dryRolls: Record<string, number> = {},
+  ) => {
+    if (!pool?.entries) return {}
+
+    const entries = applySoftPity(
+      getChestEntries(pool.entries, getChest(chestType), rarityBoost),
+      softPityRules,
+      dryRolls,
+    )
+    const sum = entries.reduce((acc, e) => acc + e.weight, 0)
+
+    return entries.reduce(
+      (table, entry) => {
+        table[entry.name] = sum === 0 ? 0 : entry.weight / sum
+        return table
+      },
+      {} as Record<string, number>,
+    )
+  }
+
+  /** Percentage chance of each entry, rounded for display */
+  const getLootChances = (chestType: ChestType = "normal", rarityBoost = 1) => {
+    const probabilities = getLootProbabilities(chestType, rarityBoost)
+
+    return Object.keys(probabilities).reduce(
+      (table, name) => {
+        table[name] = toPercentage(probabilities[name], 1)
+        return table
+      },
+      {} as Record<string, number>,
+    )
+  }
+
+  const rollEntry = (entries: LootEntry[]): LootEntry | null => {
+    const sum = entries.reduce((acc, e) => acc + e.weight, 0)
+    if (sum === 0) return null
+
+    const roll = rng.random() * sum
+    let current = 0
+    for (const entry of entries) {
+      current += entry.weight
+      if (roll <= current) return entry
+    }
+    return null
+  }
+
+  // Items of the opening being rolled count as owned as soon as they drop
+  const openingItems = new Set<string>()
+  const isOwned = (item: string) => openingItems.has(item) || isOwnedItem(item)
+
+  /** Entries of a chained pool, with its duplicate protection applied */
+  const getPoolEntries = (poolName: string): LootEntry[] => {
+    const itemPool = poolsByName.get(poolName)
+    return itemPool ? applyDuplicateProtection(itemPool, isOwned) : []
+  }
+
+  /**
+   * Chance (0-1) of each entry of a chained pool for the next roll, duplicate protection included.
+   * @example engine.getPoolProbabilities("mythic-items") // { "void-shard": 0.5, "starforged-relic": 0.5 }
+   */
+  const getPoolProbabilities = (poolName: string): Record<string, number> => {
+    const entries = getPoolEntries(poolName)
+    const sum = entries.reduce((acc, e) => acc + e.weight, 0)
+    return Object.fromEntries(entries.map((e) => [e.name, sum === 0 ? 0 : e.weight / sum]))
+  }
+
+  /** Follows `entry.pool` links down to a leaf entry, skipping `excluded` names while others are left */
+  const resolveItem = (entry: LootEntry, excluded: string[] = []): string => {
+    let current = entry
+    while (current.pool) {
+      const entries = getPoolEntries(current.pool)
+      const allowed = entries.filter((e) => !excluded.includes(e.name) && e.weight > 0)
+      const next = rollEntry(allowed.length > 0 ? allowed : entries)
+      if (!next) break
+      current = next
+    }
+    return current.name
+  }
+
+  const getBannerProgress = (bannerId: string) => {
+    state.banners[bannerId] ??= createBannerProgress()
+    return state.banners[bannerId]
+  }
+
+  /**
+   * Resolves a rolled rarity on a banner: featured tiers roll the rate-up first,
+   * a lost rate-up rolls the rest of the tier and guarantees the next drop of it.
+   */
+  const resolveBannerItem = (banner: FeaturedBanner, rarity: LootEntry): Pick<Drop, "item" | "featured"> => {
+    const featured = banner.featured.filter((e) => catalog[e.name]?.rarity === rarity.name && e.weight > 0)
+    if (featured.length === 0) return { item: resolveItem(rarity) }
+
+    const progress = getBannerProgress(banner.id)
+    progress.hits += 1
+    const guaranteed = progress.guaranteed.includes(rarity.name)
+    if (guaranteed || rng.random() < (banner.rateUp ?? DEFAULT_RATE_UP)) {
+      progress.guaranteed = progress.guaranteed.filter((name) => name !== rarity.name)
+      progress.featured += 1
+      return { item: rollEntry(featured)?.name ?? resolveItem(rarity), featured: true }
+    }
+
+    progress.lost += 1
+    progress.guaranteed.push(rarity.name)
+    return {
+      item: resolveItem(
+        rarity,
+        featured.map((e) => e.name),
+      ),
+    }
+  }
+
+  const pityRules = config.pity ?? []
+  const softPityRules = config.softPity ?? []
+  const trackedRarities = [...new Set([...pityRules, ...softPityRules].map((rule) => rule.rarity))]
+
+  const getPityCounters = (chestType: ChestType) => {
+    state.pity[chestType] ??= {}
+    return state.pity[chestType]
+  }
+
+  const getPityProgress = (chestType: ChestType = "normal"): PityProgress[] => {
+    const counters = state.pity[chestType] ?? {}
+    return pityRules.map((rule) => {
+      const count = counters[rule.rarity] ?? 0
+      return { ...rule, count, remaining: Math.max(rule.within - count, 1) }
+    })
+  }
+
+  /**
+   * Effective chance of each soft pity tier as its dry-roll count grows.
+   * Each rule is evaluated on its own, with every other counter at 0.
+   * @returns One ramp per soft pity rule, from its threshold up to the roll before its hard pity (or 40 rolls past it)
+   */
+  const getSoftPityRamps = (chestType: ChestType = "normal", rarityBoost = 1, points = 8) => {
+    return softPityRules.map((rule) => {
+      const hard = pityRules.find((p) => p.rarity === rule.rarity)
+      const last = hard ? Math.max(hard.within - 2, rule.start) : rule.start + 40
+      const step = Math.max(Math.ceil((last - rule.start) / Math.max(points - 1, 1)), 1)
+      const rolls = [rule.start - 1]
+      for (let dry = rule.start; dry < last; dry += step) rolls.push(dry)
+      rolls.push(last)
+
+      return {
+        rule,
+        points: rolls.map((dry) => ({
+          roll: dry + 1,
+          chance: toPercentage(
+            getLootProbabilities(chestType, rarityBoost, { [rule.rarity]: dry })[rule.rarity] ?? 0,
+            1,
+          ),
+        })),
+      }
+    })
+  }
+
+  /** Highest rarity a pity rule forces on the next roll, if any */
+  const getForcedRarity = (chestType: ChestType): string | null => {
+    const counters = getPityCounters(chestType)
+    let forced: string | null = null
+    for (const rule of pityRules) {
+      if ((counters[rule.rarity] ?? 0) + 1 < rule.within) continue
+      if (forced === null || getRarityIdx(rule.rarity) > getRarityIdx(forced)) forced = rule.rarity
+    }
+    return forced
+  }
+
+  const updatePity = (chestType: ChestType, rarity: string) => {
+    const counters = getPityCounters(chestType)
+    for (const tracked of trackedRarities) {
+      counters[tracked] = getRarityIdx(rarity) >= getRarityIdx(tracked) ? 0 : (counters[tracked] ?? 0) + 1
+    }
+  }
+
+  /** Rolls one item, `floor` being the rarity index a slot guarantee forces (-1 for none) */
+  const rollLoot = (
+    chestType: ChestType,
+    rarityBoost: number,
+    floor: number,
+    banner: FeaturedBanner | undefined,
+  ): Drop | null => {
+    if (!pool?.entries || pool.entries.length === 0) return null
+
+    let entries = applySoftPity(
+      getChestEntries(pool.entries, getChest(chestType), rarityBoost),
+      softPityRules,
+      getPityCounters(chestType),
+    )
+    if (entries.length === 0) return null
+
+    const forced = getForcedRarity(chestType)
+    const pityIdx = forced ? getRarityIdx(forced) : -1
+    const minIdx = Math.max(pityIdx, floor)
+    const forcedEntries = minIdx >= 0 ? entries.filter((e) => getRarityIdx(e.name) >= minIdx && e.weight > 0) : []
+    if (forcedEntries.length > 0) entries = forcedEntries
+
+    const sum = entries.reduce((acc, e) => acc + e.weight, 0)
+    if (sum > 0) {
+      for (const entry of entries) state.expected[entry.name] = (state.expected[entry.name] ?? 0) + entry.weight / sum
+    }
+
+    const rarity = rollEntry(entries)
+    if (!rarity) return null
+    state.rollCount += 1
+    updatePity(chestType, rarity.name)
+
+    const { item, featured } = banner ? resolveBannerItem(banner, rarity) : { item: resolveItem(rarity) }
+    const drop: Drop = { item, rarity: rarity.name }
+    if (featured) drop.featured = true
+    if (forcedEntries.length > 0) {
+      if (pityIdx >= floor) drop.pity = true
+      else drop.guaranteed = true
+    }
+    return drop
+  }
+
+  const getLoot = (chestType: ChestType = "normal", rarityBoost = 1, banner?: FeaturedBanner): Drop | null =>
+    rollLoot(chestType, rarityBoost, -1, banner)
+
+  const getLoots = (options?: GetLootsOptions) => {
+    const { max, chestType = "normal", multiplier = 1, rarityBoost = 1, banner } = options ?? {}
+    const chest = getChest(chestType)
+    const maxRolls = max ?? chest.maxRolls
+    if (maxRolls <= 0) return []
+
+    const distribution: CountDistribution =
+      max === undefined ? getRollDistribution(chest) : { type: "uniform", min: 1, max }
+    const baseCount = clamp(sampleCount(rng, distribution), 0, maxRolls)
+    const reroll = getMultipliedRollCount(baseCount, maxRolls, multiplier)
+    const guarantees = chest.guarantees ?? []
+
+    openingItems.clear()
+    const drops: Drop[] = []
+    let best = -1
+    for (let slot = 0; slot < reroll; slot++) {
+      const drop = rollLoot(chestType, rarityBoost, getSlotFloor(guarantees, reroll, slot, best), banner)
+      if (!drop) continue
+      best = Math.max(best, getRarityIdx(drop.rarity))
+      openingItems.add(drop.item)
+      drops.push(drop)
+    }
+    openingItems.clear()
+    return drops
+  }
+
+  /**
+   * Rolls a crafting recipe: its success chance, then an item of the output rarity from that rarity's pool.
+   * Crafts leave the roll, pity and expected counters alone, so chest stats stay comparable.
+   * @returns The crafted item, or null when the craft fails
+   */
+  const craft = (recipe: CraftingRecipe): Drop | null => {
+    if (rng.random() >= recipe.chance) return null
+    const rarity = pool?.entries.find((e) => e.name === recipe.output)
+    if (!rarity) return null
+    return { item: resolveItem(rarity), rarity: rarity.name, crafted: true }
+  }
+
+  /** Rolls the upgrade chances of a chest, chests without upgrades are returned as is */
+  const rollChestType = (chestType: ChestType): ChestType => {
+    const upgrades = getChest(chestType).upgrades ?? []
+    if (upgrades.length === 0) return chestType
+
+    const upgradeRoll = rng.random()
+    let threshold = 0
+    for (const upgrade of upgrades) {
+      threshold += upgrade.chance
+      if (upgradeRoll < threshold) return upgrade.chestType
+    }
+    return chestType
+  }
+
+  const getRollCount = () => state.rollCount
+
+  const reset = () => {
+    state.rollCount = 0
+    state.pity = {}
+    state.expected = {}
+    state.banners = {}
+  }
+
+  return {
+    getLoot,
+    getPoolName,
+    getLootChances,
+    getLootProbabilities,
+    getPoolProbabilities,
+    getLoots,
+    rollChestType,
+    craft,
+    getPityProgress,
+    getSoftPityRamps,
+    getChests: () => chests,
+    /** Chest keys that can be bought with fragments, among this config's chests */
+    getFragmentCosts: () => getFragmentCosts(chests),
+    getRollCount,
+    reset,
+  }
+}
+
+export type LootEngine = ReturnType<typeof createLootEngine>
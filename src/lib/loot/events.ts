@@ -0,0 +1,150 @@
+/**
+ * Timed events: drop modifiers scheduled on the wall clock, as one-off windows or weekly recurring ones.
+ * Weekly windows are in UTC so every player sees the same event at the same time.
+ */
+
+import type { ChestType } from "@/lib/loot/engine.ts"
+import { mod } from "@/lib/math.ts"
+
+const MINUTE_MS = 60_000
+const HOUR_MS = 60 * MINUTE_MS
+const DAY_MS = 24 * HOUR_MS
+const WEEK_MS = 7 * DAY_MS
+/** 1970-01-01 (epoch day 0) was a Thursday */
+const EPOCH_WEEKDAY = 4
+
+export const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"] as const
+
+/**
+ * When an event runs.
+ * - once: from `start` to `end` (epoch ms)
+ * - weekly: every `day` (0 = Sunday, UTC) from `startMinute` past midnight, for `durationMinutes` (at most a week)
+ */
+export type EventSchedule =
+  | { type: "once"; start: number; end: number }
+  | { type: "weekly"; day: number; startMinute: number; durationMinutes: number }
+
+/** Modifiers applied to every chest opened while an event runs */
+export type EventModifiers = {
+  /** Replaces the selected chest */
+  chest?: ChestType
+  multiplier?: number
+  rarityBoost?: number
+}
+
+export type TimedEvent = {
+  id: string
+  name: string
+  schedule: EventSchedule
+  modifiers: EventModifiers
+}
+
+export type EventWindow = { start: number; end: number }
+
+export type EventStatus = {
+  /** Running events, with the time they end */
+  active: { event: TimedEvent; endsAt: number }[]
+  /** Next window of every event that isn't running, soonest first */
+  upcoming: { event: TimedEvent; startsAt: number }[]
+}
+
+/**
+ * Finds the window of a schedule running at `now`, or else the next one.
+ * @param schedule - Event schedule
+ * @param now - Current time (epoch ms)
+ * @returns The running or next window, or null once a one-off event is over
+ */
+export const getEventWindow = (schedule: EventSchedule, now: number): EventWindow | null => {
+  if (schedule.type === "once") return now < schedule.end ? { start: schedule.start, end: schedule.end } : null
+
+  const duration = Math.min(schedule.durationMinutes * MINUTE_MS, WEEK_MS)
+  const dayStart = Math.floor(now / DAY_MS) * DAY_MS
+  const weekStart = dayStart - mod(dayStart / DAY_MS + EPOCH_WEEKDAY, 7) * DAY_MS
+  // Start from last week, its window may still be running
+  let start = weekStart + schedule.day * DAY_MS + schedule.startMinute * MINUTE_MS - WEEK_MS
+  while (start + duration <= now) start += WEEK_MS
+  return { start, end: start + duration }
+}
+
+/**
+ * Splits events into running and upcoming ones.
+ * @param events - Scheduled events
+ * @param now - Current time (epoch ms)
+ */
+export const getEventStatus = (events: TimedEvent[], now: number): EventStatus => {
+  const status: EventStatus = { active: [], upcoming: [] }
+  for (const event of events) {
+    const window = getEventWindow(event.schedule, now)
+    if (!window) continue
+    if (window.start <= now) status.active.push({ event, endsAt: window.end })
+    else status.upcoming.push({ event, startsAt: window.start })
+  }
+  status.upcoming.sort((a, b) => a.startsAt - b.startsAt)
+  return status
+}
+
+/**
+ * Combines the modifiers of overlapping events: the highest multiplier and boost win,
+ * the first event (in definition order) overriding the chest wins.
+ * @param events - Running events
+ */
+export const combineEventModifiers = (events: TimedEvent[]): EventModifiers => {
+  const modifiers: EventModifiers = {}
+  for (const { modifiers: m } of events) {
+    modifiers.chest ??= m.chest
+    if (m.multiplier !== undefined) modifiers.multiplier = Math.max(modifiers.multiplier ?? 1, m.multiplier)
+    if (m.rarityBoost !== undefined) modifiers.rarityBoost = Math.max(modifiers.rarityBoost ?? 1, m.rarityBoost)
+  }
+  return modifiers
+}
+
+/**
+ * Modifiers of the events running at `now`.
+ * @param events - Scheduled events
+ * @param now - Current time (epoch ms)
+ */
+export const getActiveEventModifiers = (events: TimedEvent[], now: number): EventModifiers =>
+  combineEventModifiers(getEventStatus(events, now).active.map(({ event }) => event))
+
+/**
+ * Short label of an event's modifiers.
+ * @example describeEventModifiers({ chest: "rare", multiplier: 2 }) // "RARE CHEST + x2 DROPS"
+ */
+export const describeEventModifiers = ({ chest, multiplier, rarityBoost }: EventModifiers) =>
+  [
+    chest && `${chest.toUpperCase()} CHEST`,
+    multiplier !== undefined && multiplier > 1 && `x${multiplier} DROPS`,
+    rarityBoost !== undefined && rarityBoost > 1 && `x${rarityBoost} RARE+`,
+  ]
+    .filter(Boolean)
+    .join(" + ")
+
+/**
+ * Plain description of a schedule.
+ * @example describeEventSchedule({ type: "weekly", day: 6, startMinute: 1080, durationMinutes: 240 })
+ * // "every Saturday from 18:00 UTC for 4h"
+ */
+export const describeEventSchedule = (schedule: EventSchedule) => {
+  if (schedule.type === "once") {
+    const format = (time: number) => new Date(time).toISOString().slice(0, 16).replace("T", " ")
+    return `from ${format(schedule.start)} to ${format(schedule.end)} UTC`
+  }
+  const hours = String(Math.floor(schedule.startMinute / 60)).padStart(2, "0")
+  const minutes = String(schedule.startMinute % 60).padStart(2, "0")
+  const duration = schedule.durationMinutes / 60
+  return `every ${WEEKDAYS[schedule.day]} from ${hours}:${minutes} UTC for ${Number(duration.toFixed(2))}h`
+}
+
+/**
+ * Formats a duration as a countdown.
+ * @param ms - Duration in ms (negative counts as 0)
+ * @example formatCountdown(93_784_000) // "1d 02:03:04"
+ */
+export const formatCountdown = (ms: number) => {
+  const total = Math.max(0, Math.ceil(ms / 1000))
+  const days = Math.floor(total / 86_400)
+  const time = [Math.floor(total / 3600) % 24, Math.floor(total / 60) % 60, total % 60]
+    .map((n) => String(n).padStart(2, "0"))
+    .join(":")
+  return days > 0 ? `${days}d ${time}` : time
+}
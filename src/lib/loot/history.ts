@@ -0,0 +1,155 @@
+import { CRAFT_SOURCE, type CraftRecord } from "@/lib/loot/crafting.ts"
+import type { ChestType, Drop } from "@/lib/loot/engine.ts"
+import type { Rarity } from "@/lib/loot/rarity.ts"
+
+/** One chest opening, as recorded in the drop history */
+export type DropRecord = {
+  attempt: number
+  /** Epoch milliseconds */
+  at: number
+  /** Chest selected when opening */
+  requestedChest: ChestType
+  /** Chest actually rolled, after the upgrade roll (none for stored keys) */
+  chest: ChestType
+  multiplier: number
+  rarityBoost: number
+  drops: Drop[]
+}
+
+/** A history entry: a chest opening, or a craft kept apart from them */
+export type HistoryEntry = DropRecord | CraftRecord
+
+export type HistoryFilter = {
+  rarity: Rarity | "all"
+  /** Rolled chest type, CRAFT_SOURCE for crafts only */
+  chest: ChestType | "all"
+}
+
+/** Tells crafts apart from chest openings in a history entry list */
+export const isCraftRecord = (entry: HistoryEntry): entry is CraftRecord => "recipe" in entry
+
+const CSV_COLUMNS = [
+  "attempt",
+  "timestamp",
+  "requested_chest",
+  "chest",
+  "multiplier",
+  "rarity_boost",
+  "item",
+  "rarity",
+  "pity",
+  "guaranteed",
+  "featured",
+  "crafted",
+  "recipe",
+]
+
+const toCsvValue = (value: string | number | boolean) => {
+  const text = String(value)
+  return /[",\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text
+}
+
+/**
+ * Keeps the records opened from a chest type and dropping at least one item of a rarity,
+ * and the crafts matching the same filter.
+ * @param history - Records to filter
+ * @param filter - Rarity and (rolled) chest type, "all" to disable either
+ * @param crafts - Crafts to filter along, crafted items match the rarity filter (default: none)
+ * @returns Matching openings and crafts, oldest first
+ */
+export const filterHistory = (
+  history: DropRecord[],
+  { rarity, chest }: HistoryFilter,
+  crafts: CraftRecord[] = [],
+): HistoryEntry[] => {
+  const openings = history.filter(
+    (record) =>
+      (chest === "all" || record.chest === chest) &&
+      (rarity === "all" || record.drops.some((drop) => drop.rarity === rarity)),
+  )
+  const crafted = crafts.filter(
+    (craft) =>
+      (chest === "all" || chest === CRAFT_SOURCE) &&
+      (rarity === "all" || (craft.item !== null && craft.rarity === rarity)),
+  )
+  return [...openings, ...crafted].sort((a, b) => a.at - b.at)
+}
+
+/**
+ * Serializes records to CSV with one row per dropped or crafted item, ready for spreadsheets.
+ * An opening without items keeps one row with empty item columns, so rows still add up to the openings.
+ * Crafted rows have the CRAFT_SOURCE chest and their recipe, failed crafts have no row.
+ * @param history - Records to export
+ * @returns CSV text with a header row
+ * @example
+ * downloadFile("history.csv", historyToCsv(history), "text/csv")
+ */
+export const historyToCsv = (history: HistoryEntry[]): string => {
+  const rows = history.flatMap((record) => {
+    const timestamp = new Date(record.at).toISOString()
+    if (isCraftRecord(record)) {
+      return record.item
+        ? [
+            [
+              "",
+              timestamp,
+              "",
+              CRAFT_SOURCE,
+              "",
+              "",
+              record.item,
+              record.rarity,
+              false,
+              false,
+              false,
+              true,
+              record.recipe,
+            ]
+              .map(toCsvValue)
+              .join(","),
+          ]
+        : []
+    }
+    const opening = [
+      record.attempt,
+      timestamp,
+      record.requestedChest,
+      record.chest,
+      record.multiplier,
+      record.rarityBoost,
+    ]
+    if (record.drops.length === 0) return [[...opening, "", "", "", "", "", false, ""].map(toCsvValue).join(",")]
+    return record.drops.map((drop) =>
+      [
+        ...opening,
+        drop.item,
+        drop.rarity,
+        drop.pity ?? false,
+        drop.guaranteed ?? false,
+        drop.featured ?? false,
+        false,
+        "",
+      ]
+        .map(toCsvValue)
+        .join(","),
+    )
+  })
+  return [CSV_COLUMNS.join(","), ...rows].join("\n")
+}
+
+/**
+ * Serializes records to JSON, with ISO timestamps. Crafts are marked with `crafted: true`.
+ * @param history - Records to export
+ * @returns Pretty-printed JSON array
+ */
+export const historyToJson = (history: HistoryEntry[]): string => {
+  return JSON.stringify(
+    history.map((record) => ({
+      ...record,
+      at: new Date(record.at).toISOString(),
+      ...(isCraftRecord(record) && { crafted: true }),
+    })),
+    null,
+    2,
+  )
+}
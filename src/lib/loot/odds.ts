@@ -0,0 +1,245 @@
+/**
+ * Analytical odds: exact per-attempt probabilities, without simulating.
+ * Covers the chest upgrade roll, stored chests, chest configs, rarity boost, drop multiplier, roll count
+ * and slot guarantees.
+ * Soft pity is applied with the dry-roll counters as they stand before the opening; hard pity and
+ * the counter changes within an attempt are left out.
+ */
+
+import {
+  type ChestConfig,
+  type ChestType,
+  getMultipliedRollCount,
+  getRollDistribution,
+  getSlotFloor,
+  type LootEngine,
+  type LootEngineState,
+  type SlotGuarantee,
+} from "@/lib/loot/engine.ts"
+import { getRarityIdx } from "@/lib/loot/rarity.ts"
+import { clamp } from "@/lib/math.ts"
+import { getCountProbabilities } from "@/lib/random.ts"
+
+export type OddsState = {
+  /** Chest selected by the player or event */
+  chestType: ChestType
+  /** Opened with a stored chest key, which skips the upgrade roll */
+  stored: boolean
+  /** Drop multiplier, already including an active x2 event */
+  multiplier: number
+  rarityBoost: number
+  /** Soft pity dry-roll counters per chest type (see LootEngineState.pity), none by default */
+  pity?: LootEngineState["pity"]
+}
+
+export type RarityOdds = {
+  name: string
+  /** Chance (0-1) that a single item has this rarity, averaged over the chest distribution */
+  perItem: number
+  /** Chance (0-1) that an attempt drops at least one item of this rarity */
+  perAttempt: number
+  /** Expected number of items of this rarity per attempt */
+  expectedCount: number
+}
+
+/** Odds of one opening of a given chest */
+export type ChestOdds = {
+  /** Chance (0-1) of each item count per attempt */
+  itemCounts: { count: number; chance: number }[]
+  expectedItems: number
+  rarities: RarityOdds[]
+}
+
+export type EffectiveOdds = {
+  /** Chance (0-1) of each chest actually being rolled */
+  chests: { chestType: ChestType; chance: number }[]
+  /** Chance (0-1) of each item count per attempt */
+  itemCounts: { count: number; chance: number }[]
+  expectedItems: number
+  rarities: RarityOdds[]
+}
+
+/**
+ * Chance of each chest being rolled when opening: a stored chest as is,
+ * otherwise the selected chest after its upgrade roll.
+ * @param chests - Chest definitions (see LootEngine.getChests)
+ * @param chestType - Selected chest
+ * @param stored - Whether the chest is opened with a stored key
+ */
+export const getChestDistribution = (
+  chests: Record<ChestType, ChestConfig>,
+  chestType: ChestType,
+  stored: boolean,
+): { chestType: ChestType; chance: number }[] => {
+  if (stored) return [{ chestType, chance: 1 }]
+
+  const upgrades = (chests[chestType]?.upgrades ?? []).map(({ chestType, chance }) => ({ chestType, chance }))
+  const upgraded = upgrades.reduce((acc, upgrade) => acc + upgrade.chance, 0)
+  return [{ chestType, chance: 1 - upgraded }, ...upgrades]
+}
+
+/**
+ * Chance of each item count for one chest: its roll count distribution, capped at maxRolls, then multiplied.
+ * @param chest - Chest config
+ * @param multiplier - Drop multiplier
+ */
+export const getItemCountDistribution = (chest: ChestConfig, multiplier: number) => {
+  const { maxRolls } = chest
+  const chances = new Map<number, number>()
+  for (const { count: base, chance } of getCountProbabilities(getRollDistribution(chest))) {
+    const count = getMultipliedRollCount(clamp(base, 0, maxRolls), maxRolls, multiplier)
+    chances.set(count, (chances.get(count) ?? 0) + chance)
+  }
+  return [...chances].map(([count, chance]) => ({ count, chance })).sort((a, b) => a.count - b.count)
+}
+
+/**
+ * Rarity odds of an opening of a fixed item count, the last item following the chest slot guarantees.
+ * The last item's floor depends on the highest rarity among the items before it, so the odds are
+ * summed over that highest rarity.
+ * @param probabilities - Chance (0-1) of each rarity for a single free roll
+ * @param guarantees - Chest slot rules
+ * @param count - Items in the opening
+ * @returns Expected count and chance of at least one item, per rarity
+ */
+export const getOpeningOdds = (probabilities: Record<string, number>, guarantees: SlotGuarantee[], count: number) => {
+  const names = Object.keys(probabilities)
+  if (guarantees.length === 0 || count === 0) {
+    return names.map((name) => ({
+      name,
+      expectedCount: count * probabilities[name],
+      perAttempt: 1 - (1 - probabilities[name]) ** count,
+    }))
+  }
+
+  const free = count - 1
+  const levels = free === 0 ? [-1] : [...new Set(names.map(getRarityIdx))].sort((a, b) => a - b)
+
+  // Last item odds once the best earlier rarity is known, unchanged when nothing is left to force it to
+  const lastSlots = new Map(
+    levels.map((best) => {
+      const floor = getSlotFloor(guarantees, count, free, best)
+      const eligible = names.filter((name) => getRarityIdx(name) >= floor && probabilities[name] > 0)
+      const sum = eligible.reduce((acc, name) => acc + probabilities[name], 0)
+      const chance = (name: string) => {
+        if (floor < 0 || sum === 0) return probabilities[name]
+        return eligible.includes(name) ? probabilities[name] / sum : 0
+      }
+      return [best, chance]
+    }),
+  )
+
+  // Chance the free items peak at each level, optionally without ever dropping `excluded`
+  const getPeaks = (excluded?: string) => {
+    let previous = 0
+    return levels.map((level) => {
+      const below = names
+        .filter((name) => name !== excluded && getRarityIdx(name) <= level)
+        .reduce((acc, name) => acc + probabilities[name], 0)
+      const cumulative = below ** free
+      const chance = cumulative - previous
+      previous = cumulative
+      return { level, chance }
+    })
+  }
+
+  const peaks = getPeaks()
+  return names.map((name) => {
+    const last = (level: number) => lastSlots.get(level)?.(name) ?? 0
+    const none = getPeaks(name).reduce((acc, peak) => acc + peak.chance * (1 - last(peak.level)), 0)
+    return {
+      name,
+      expectedCount: free * probabilities[name] + peaks.reduce((acc, peak) => acc + peak.chance * last(peak.level), 0),
+      perAttempt: 1 - none,
+    }
+  })
+}
+
+/**
+ * Computes the exact odds of opening one chest, without the upgrade roll.
+ * @param engine - Engine holding the live config
+ * @param chestType - Chest opened
+ * @param multiplier - Drop multiplier
+ * @param rarityBoost - Rarity boost
+ * @param dryRolls - Soft pity dry-roll counters of that chest, applied to every item of the opening
+ * @returns Item count distribution and per-rarity odds per item and per attempt
+ */
+export const getChestOdds = (
+  engine: LootEngine,
+  chestType: ChestType,
+  multiplier: number,
+  rarityBoost: number,
+  dryRolls: Record<string, number> = {},
+): ChestOdds => {
+  const chests = engine.getChests()
+  const chest = chests[chestType] ?? chests.normal
+  const itemCounts = getItemCountDistribution(chest, multiplier)
+  const probabilities = engine.getLootProbabilities(chestType, rarityBoost, dryRolls)
+  const expectedItems = itemCounts.reduce((acc, c) => acc + c.count * c.chance, 0)
+
+  const rarities = new Map<string, RarityOdds>(
+    Object.keys(probabilities).map((name) => [name, { name, perItem: 0, perAttempt: 0, expectedCount: 0 }]),
+  )
+  for (const { count, chance } of itemCounts) {
+    for (const opening of getOpeningOdds(probabilities, chest.guarantees ?? [], count)) {
+      const odds = rarities.get(opening.name) as RarityOdds
+      odds.expectedCount += chance * opening.expectedCount
+      odds.perAttempt += chance * opening.perAttempt
+    }
+  }
+  for (const odds of rarities.values()) {
+    odds.perItem = expectedItems === 0 ? 0 : odds.expectedCount / expectedItems
+  }
+
+  return { itemCounts, expectedItems, rarities: [...rarities.values()] }
+}
+
+/**
+ * Computes the exact odds of one chest opening under a given state.
+ * @param engine - Engine holding the live config
+ * @param state - Selected chest, stored key, multiplier, rarity boost and soft pity counters
+ * @returns Chest and item count distributions, and per-rarity odds per item and per attempt
+ * @example
+ * const odds = getEffectiveOdds(engine, { chestType: "normal", stored: false, multiplier: 1, rarityBoost: 1 })
+ * odds.rarities.find((r) => r.name === "mythic")?.perAttempt // e.g. 0.0071
+ */
+export const getEffectiveOdds = (engine: LootEngine, state: OddsState): EffectiveOdds => {
+  const chests = getChestDistribution(engine.getChests(), state.chestType, state.stored).filter((c) => c.chance > 0)
+
+  const itemCounts = new Map<number, number>()
+  const rarities = new Map<string, RarityOdds>()
+  let expectedItems = 0
+
+  for (const chest of chests) {
+    const chestOdds = getChestOdds(
+      engine,
+      chest.chestType,
+      state.multiplier,
+      state.rarityBoost,
+      state.pity?.[chest.chestType],
+    )
+    expectedItems += chest.chance * chestOdds.expectedItems
+
+    for (const { count, chance } of chestOdds.itemCounts) {
+      itemCounts.set(count, (itemCounts.get(count) ?? 0) + chest.chance * chance)
+    }
+
+    for (const { name, perAttempt, expectedCount } of chestOdds.rarities) {
+      const odds = rarities.get(name) ?? { name, perItem: 0, perAttempt: 0, expectedCount: 0 }
+      odds.expectedCount += chest.chance * expectedCount
+      odds.perAttempt += chest.chance * perAttempt
+      rarities.set(name, odds)
+    }
+  }
+
+  for (const odds of rarities.values()) {
+    odds.perItem = expectedItems === 0 ? 0 : odds.expectedCount / expectedItems
+  }
+
+  return {
+    chests,
+    itemCounts: [...itemCounts].map(([count, chance]) => ({ count, chance })).sort((a, b) => a.count - b.count),
+    expectedItems,
+    rarities: [...rarities.values()],
+  }
+}
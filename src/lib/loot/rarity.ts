@@ -0,0 +1,12 @@
+/** Rarity tiers from most to least common */
+export const RARITY_ORDER = ["common", "uncommon", "rare", "epic", "legendary", "mythic"] as const
+export type Rarity = (typeof RARITY_ORDER)[number]
+
+/**
+ * Position of a rarity in RARITY_ORDER.
+ * @returns Index, or -1 for an unknown rarity
+ * @example getRarityIdx("epic") // 3
+ */
+export const getRarityIdx = (rarity: string) => RARITY_ORDER.indexOf(rarity as Rarity)
+
+export const isRarity = (value: string): value is Rarity => getRarityIdx(value) !== -1
@@ -0,0 +1,56 @@
+/**
+ * Salvage: owned copies are broken down into fragments, the rarer the item the more fragments.
+ * Fragments are then spent like the ones earned by opening chests.
+ */
+
+import { ITEM_CATALOG, type ItemCatalog } from "@/assets/items.ts"
+import type { Rarity } from "@/lib/loot/rarity.ts"
+
+/** Fragments earned per salvaged copy */
+export const SALVAGE_YIELDS: Record<Rarity, number> = {
+  common: 1,
+  uncommon: 2,
+  rare: 5,
+  epic: 15,
+  legendary: 40,
+  mythic: 100,
+}
+
+export type SalvageEntry = {
+  item: string
+  /** Copies salvaged */
+  count: number
+  fragments: number
+}
+
+/**
+ * Fragments earned by salvaging copies of an item.
+ * @param item - Catalog item id
+ * @param count - Copies salvaged
+ * @param catalog - Item catalog (default: ITEM_CATALOG)
+ * @returns Fragments earned, 0 for items outside the catalog
+ * @example getSalvageYield("void-shard", 2) // 200
+ */
+export const getSalvageYield = (item: string, count: number, catalog: ItemCatalog = ITEM_CATALOG): number => {
+  const rarity = catalog[item]?.rarity
+  return rarity ? SALVAGE_YIELDS[rarity] * count : 0
+}
+
+/**
+ * Copies owned beyond the first of each item, and what they salvage for.
+ * @param owned - Owned copies keyed by catalog item id
+ * @param catalog - Item catalog (default: ITEM_CATALOG)
+ * @returns One entry per salvageable item with duplicates
+ */
+export const getDuplicates = (
+  owned: Record<string, { count: number }>,
+  catalog: ItemCatalog = ITEM_CATALOG,
+): SalvageEntry[] => {
+  return Object.entries(owned)
+    .filter(([item, entry]) => entry.count > 1 && catalog[item])
+    .map(([item, entry]) => ({
+      item,
+      count: entry.count - 1,
+      fragments: getSalvageYield(item, entry.count - 1, catalog),
+    }))
+}
@@ -0,0 +1,91 @@
+import type { LootConfig } from "@/assets/pools.ts"
+import { type ChestType, createLootEngine } from "@/lib/loot/engine.ts"
+import { getChestOdds } from "@/lib/loot/odds.ts"
+import { toPercentage } from "@/lib/math.ts"
+import { seededUtils } from "@/lib/random.ts"
+import { type ChiSquareResult, chiSquareTest } from "@/lib/stats.ts"
+
+export type SimulationOptions = {
+  opens: number
+  chestType: ChestType
+  multiplier: number
+  rarityBoost: number
+  seed: number
+  /** Apply the config hard and soft pity rules (expected rates then no longer hold exactly) */
+  pity?: boolean
+}
+
+export type SimulationRow = {
+  name: string
+  observed: number
+  /** Observed share of all items, in percent */
+  observedPct: number
+  /** Expected share from getChestOdds (slot guarantees included), in percent */
+  expectedPct: number
+}
+
+/** Openings that dropped `count` items, against the chest roll count distribution */
+export type SimulationCountRow = {
+  count: number
+  observed: number
+  /** Expected openings from the chest roll count distribution */
+  expected: number
+}
+
+export type SimulationResult = {
+  options: SimulationOptions
+  totalItems: number
+  rows: SimulationRow[]
+  itemCounts: SimulationCountRow[]
+  test: ChiSquareResult
+}
+
+/**
+ * Opens a chest N times on a throwaway engine and compares the item
+ * distribution with the configured odds.
+ * @param config - Loot tables to simulate
+ * @param options - Number of opens, chest, multiplier, rarity boost and seed
+ * @returns Observed vs expected rarity frequencies and item counts, and a chi-square goodness-of-fit test
+ * @example
+ * const result = simulateChestOpens(lootConfig, { opens: 10000, chestType: "normal", multiplier: 1, rarityBoost: 1, seed: 42 })
+ * result.test.pValue // e.g. 0.61
+ */
+export const simulateChestOpens = (config: LootConfig, options: SimulationOptions): SimulationResult => {
+  const { opens, chestType, multiplier, rarityBoost, seed, pity = false } = options
+  const engine = createLootEngine(pity ? config : { ...config, pity: [], softPity: [] }, { rng: seededUtils(seed) })
+
+  const odds = getChestOdds(engine, chestType, multiplier, rarityBoost)
+  const probabilities = Object.fromEntries(odds.rarities.map((r) => [r.name, r.perItem]))
+  const counts = new Map<string, number>(Object.keys(probabilities).map((name) => [name, 0]))
+  const expectedCounts = odds.itemCounts
+  const itemCounts = new Map<number, number>(expectedCounts.map(({ count }) => [count, 0]))
+
+  let totalItems = 0
+  for (let i = 0; i < opens; i++) {
+    const drops = engine.getLoots({ chestType, multiplier, rarityBoost })
+    itemCounts.set(drops.length, (itemCounts.get(drops.length) ?? 0) + 1)
+    for (const { rarity } of drops) {
+      counts.set(rarity, (counts.get(rarity) ?? 0) + 1)
+      totalItems += 1
+    }
+  }
+
+  const rows = Array.from(counts.entries()).map(([name, observed]) => ({
+    name,
+    observed,
+    observedPct: totalItems === 0 ? 0 : (observed / totalItems) * 100,
+    expectedPct: toPercentage(probabilities[name] ?? 0, 1),
+  }))
+
+  const test = chiSquareTest(
+    rows.map((row) => row.observed),
+    rows.map((row) => (probabilities[row.name] ?? 0) * totalItems),
+  )
+
+  const expectedByCount = new Map(expectedCounts.map(({ count, chance }) => [count, chance * opens]))
+  const countRows = [...itemCounts]
+    .map(([count, observed]) => ({ count, observed, expected: expectedByCount.get(count) ?? 0 }))
+    .sort((a, b) => a.count - b.count)
+
+  return { options, totalItems, rows, itemCounts: countRows, test }
+}
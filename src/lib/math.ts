@@ -163,3 +163,15 @@ export const smoothstep = (t: number): number => {
   const x = clamp(t, 0, 1)
   return x * x * (3 - 2 * x)
 }
+
+/**
+ * Expresses a value as a percentage of a total, rounded to 2 decimals.
+ * @param value - Part of the total
+ * @param total - The whole
+ * @returns Percentage (0 when value is 0)
+ * @example toPercentage(1, 8) // 12.5
+ * @example toPercentage(0, 0) // 0
+ */
+export const toPercentage = (value: number, total: number): number => {
+  return Number.parseFloat((value === 0 ? 0 : (value / total) * 100).toFixed(2))
+}
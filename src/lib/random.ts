@@ -105,6 +105,20 @@ export const gaussian = (mean: number = 0, standardDeviation: number = 1): numbe
   return z0 * standardDeviation + mean
 }
 
+/** mulberry32 generator exposing its internal state, so a sequence can be saved and resumed */
+const mulberry32 = (initialState: number) => {
+  let state = initialState >>> 0
+  return {
+    next: () => {
+      state = (state + 0x6d2b79f5) >>> 0
+      let t = Math.imul(state ^ (state >>> 15), 1 | state)
+      t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+    },
+    getState: () => state,
+  }
+}
+
 /**
  * Creates a seeded random number generator.
  * Produces reproducible sequences of random numbers.
@@ -117,30 +131,43 @@ export const gaussian = (mean: number = 0, standardDeviation: number = 1): numbe
  * rng() // always returns the same second value
  */
 export const seededRandom = (seed: number): (() => number) => {
-  let state = seed >>> 0
-  return () => {
-    state = (state + 0x6d2b79f5) >>> 0
-    let t = Math.imul(state ^ (state >>> 15), 1 | state)
-    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
-    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
-  }
+  return mulberry32(seed).next
+}
+
+/**
+ * Generates a fresh 32-bit seed for seededRandom/seededUtils.
+ * @returns Random unsigned 32-bit integer
+ * @example
+ * const rand = seededUtils(randomSeed())
+ */
+export const randomSeed = (): number => {
+  return Math.floor(Math.random() * 4294967296) >>> 0
 }
 
 /**
  * Creates a seeded random utilities object.
  * All random functions use the same seed for reproducible results.
  * @param seed - Seed value
+ * @param state - Generator state to resume from, as returned by getState() (default: start of the sequence)
  * @returns Object with seeded versions of random utilities
  * @example
  * const rand = seededUtils(42)
  * rand.range(0, 100) // reproducible random float
  * rand.int(1, 6) // reproducible random int
  * rand.pick(['a', 'b', 'c']) // reproducible random pick
+ * const resumed = seededUtils(42, rand.getState()) // continues where rand is
  */
-export const seededUtils = (seed: number) => {
-  const rng = seededRandom(seed)
+export const seededUtils = (seed: number, state: number = seed) => {
+  const generator = mulberry32(state)
+  const rng = generator.next
 
   return {
+    /** Seed the sequence started from */
+    seed: seed >>> 0,
+
+    /** Current generator state, pass it back to seededUtils to resume */
+    getState: generator.getState,
+
     /** Get raw random 0-1 */
     random: rng,
 
@@ -174,3 +201,111 @@ export const seededUtils = (seed: number) => {
     chance: (probability: number) => rng() < probability,
   }
 }
+
+/** Seeded random utilities, as returned by seededUtils */
+export type SeededUtils = ReturnType<typeof seededUtils>
+
+/**
+ * Distribution of a whole count (e.g. items per chest).
+ * - fixed: always `count`
+ * - uniform: every count from `min` to `max` (inclusive) equally likely
+ * - weighted: `count` picked by `weight` from a table
+ * - binomial: successes out of `trials` with probability `p` each, plus `offset`
+ * - poisson: Poisson count of mean `mean`, plus `offset`
+ */
+export type CountDistribution =
+  | { type: "fixed"; count: number }
+  | { type: "uniform"; min: number; max: number }
+  | { type: "weighted"; table: { count: number; weight: number }[] }
+  | { type: "binomial"; trials: number; p: number; offset?: number }
+  | { type: "poisson"; mean: number; offset?: number }
+
+/** Poisson tail mass left out of the probability table */
+const POISSON_EPSILON = 1e-12
+/** Highest Poisson count listed, whatever the remaining tail */
+const POISSON_MAX_COUNT = 1000
+
+/**
+ * Exact probability of each count of a distribution. The Poisson tail is cut once its mass
+ * drops below 1e-12 (or at 1000) and folded into the last count.
+ * @param distribution - Count distribution
+ * @returns Counts with a non-zero chance (0-1), ascending
+ * @example getCountProbabilities({ type: "binomial", trials: 2, p: 0.5 })
+ * // [{ count: 0, chance: 0.25 }, { count: 1, chance: 0.5 }, { count: 2, chance: 0.25 }]
+ */
+export const getCountProbabilities = (distribution: CountDistribution): { count: number; chance: number }[] => {
+  const chances = new Map<number, number>()
+  const add = (count: number, chance: number) => {
+    if (chance > 0) chances.set(count, (chances.get(count) ?? 0) + chance)
+  }
+
+  switch (distribution.type) {
+    case "fixed":
+      add(distribution.count, 1)
+      break
+    case "uniform": {
+      const { min, max } = distribution
+      for (let count = min; count <= max; count++) add(count, 1 / (max - min + 1))
+      break
+    }
+    case "weighted": {
+      const sum = distribution.table.reduce((acc, entry) => acc + entry.weight, 0)
+      for (const entry of distribution.table) add(entry.count, sum === 0 ? 0 : entry.weight / sum)
+      break
+    }
+    case "binomial": {
+      const { trials, p, offset = 0 } = distribution
+      let coefficient = 1
+      for (let k = 0; k <= trials; k++) {
+        add(offset + k, coefficient * p ** k * (1 - p) ** (trials - k))
+        coefficient = (coefficient * (trials - k)) / (k + 1)
+      }
+      break
+    }
+    case "poisson": {
+      const { mean, offset = 0 } = distribution
+      let chance = Math.exp(-mean)
+      let total = 0
+      let k = 0
+      for (; total + chance < 1 - POISSON_EPSILON && k < POISSON_MAX_COUNT; k++) {
+        add(offset + k, chance)
+        total += chance
+        chance = (chance * mean) / (k + 1)
+      }
+      add(offset + k, 1 - total)
+      break
+    }
+  }
+
+  return [...chances].map(([count, chance]) => ({ count, chance })).sort((a, b) => a.count - b.count)
+}
+
+/**
+ * Draws a count from a distribution. Uniform ranges use `rng.int`, other distributions a single draw
+ * against their probability table (see getCountProbabilities).
+ * @param rng - Random source
+ * @param distribution - Count distribution
+ * @returns Sampled count
+ * @example sampleCount(seededUtils(42), { type: "poisson", mean: 2, offset: 1 }) // e.g. 3
+ */
+export const sampleCount = (rng: SeededUtils, distribution: CountDistribution): number => {
+  if (distribution.type === "fixed") return distribution.count
+  if (distribution.type === "uniform") return rng.int(distribution.min, distribution.max)
+
+  const table = getCountProbabilities(distribution)
+  const roll = rng.random()
+  let cumulative = 0
+  for (const { count, chance } of table) {
+    cumulative += chance
+    if (roll < cumulative) return count
+  }
+  return table[table.length - 1]?.count ?? 0
+}
+
+/**
+ * Mean of a distribution.
+ * @example getCountMean({ type: "uniform", min: 1, max: 10 }) // 5.5
+ */
+export const getCountMean = (distribution: CountDistribution): number => {
+  return getCountProbabilities(distribution).reduce((acc, { count, chance }) => acc + count * chance, 0)
+}
@@ -0,0 +1,97 @@
+/**
+ * Versioned saves in localStorage: migrations between save versions and numbered manual slots.
+ */
+
+/** Upgrades save data from one version to the next */
+export type Migration = (data: Record<string, unknown>) => Record<string, unknown>
+
+/** Migrations keyed by the version they upgrade from */
+export type Migrations = Record<number, Migration>
+
+export type SaveSlot<T> = {
+  version: number
+  /** Epoch milliseconds */
+  savedAt: number
+  data: T
+}
+
+export type SlotResult<T> = { ok: true; slot: SaveSlot<T> } | { ok: false; message: string }
+
+/**
+ * Brings save data up to the current version by running each migration in turn.
+ * @param data - Saved data, as written by `fromVersion`
+ * @param fromVersion - Version the data was saved with
+ * @param toVersion - Current save version
+ * @param migrations - Migrations keyed by the version they upgrade from
+ * @returns The migrated data
+ * @throws If the data is newer than `toVersion` or a migration step is missing
+ * @example
+ * migrateSave({ fragments: 3 }, 1, 2, { 1: (data) => ({ ...data, keys: 0 }) }) // { fragments: 3, keys: 0 }
+ */
+export const migrateSave = (
+  data: Record<string, unknown>,
+  fromVersion: number,
+  toVersion: number,
+  migrations: Migrations,
+): Record<string, unknown> => {
+  if (fromVersion > toVersion) {
+    throw new Error(`Save version ${fromVersion} is newer than supported version ${toVersion}`)
+  }
+
+  let result = data
+  for (let version = fromVersion; version < toVersion; version++) {
+    const migration = migrations[version]
+    if (!migration) throw new Error(`No migration from save version ${version}`)
+    result = migration(result)
+  }
+  return result
+}
+
+const getSlotKey = (prefix: string, slot: number) => `${prefix}-slot-${slot}`
+
+/**
+ * Writes data to a manual save slot.
+ * @param prefix - Storage key prefix, one per store
+ * @param slot - Slot number
+ * @param version - Current save version
+ * @param data - JSON-serializable data
+ */
+export const writeSaveSlot = <T>(prefix: string, slot: number, version: number, data: T, at = Date.now()) => {
+  const save: SaveSlot<T> = { version, savedAt: at, data }
+  localStorage.setItem(getSlotKey(prefix, slot), JSON.stringify(save))
+}
+
+/**
+ * Reads a manual save slot and migrates it to the current version.
+ * @param prefix - Storage key prefix, one per store
+ * @param slot - Slot number
+ * @param version - Current save version
+ * @param migrations - Migrations keyed by the version they upgrade from
+ * @returns The migrated slot, or why it can't be loaded
+ */
+export const readSaveSlot = <T>(
+  prefix: string,
+  slot: number,
+  version: number,
+  migrations: Migrations,
+): SlotResult<T> => {
+  const text = localStorage.getItem(getSlotKey(prefix, slot))
+  if (text === null) return { ok: false, message: `Slot ${slot} is empty` }
+
+  try {
+    const save = JSON.parse(text) as SaveSlot<Record<string, unknown>>
+    const data = migrateSave(save.data, save.version, version, migrations)
+    return { ok: true, slot: { version, savedAt: save.savedAt, data: data as T } }
+  } catch (error) {
+    return { ok: false, message: `Slot ${slot} can't be loaded: ${(error as Error).message}` }
+  }
+}
+
+/**
+ * Deletes a manual save slot.
+ * @param prefix - Storage key prefix, one per store
+ * @param slot - Slot number
+ */
+export const deleteSaveSlot = (prefix: string, slot: number) => {
+  localStorage.removeItem(getSlotKey(prefix, slot))
+}
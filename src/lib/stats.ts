@@ -0,0 +1,136 @@
+/**
+ * Statistics utilities for checking observed drop rates against expected ones.
+ * All functions are pure and have no side effects.
+ */
+
+const LANCZOS_COEFFICIENTS = [
+  676.5203681218851, -1259.1392167224028, 771.3234287776531, -176.6150291621406, 12.507343278686905,
+  -0.13857109526572012, 9.984369578019572e-6, 1.5056327351493116e-7,
+]
+
+const MAX_ITERATIONS = 500
+const EPSILON = 1e-14
+
+/**
+ * Natural logarithm of the gamma function (Lanczos approximation).
+ * @param x - Positive input
+ * @returns ln(Γ(x))
+ * @example logGamma(5) // ln(24) ≈ 3.178
+ */
+export const logGamma = (x: number): number => {
+  if (x < 0.5) {
+    // Reflection formula
+    return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x)
+  }
+
+  const z = x - 1
+  let sum = 0.9999999999998099
+  for (let i = 0; i < LANCZOS_COEFFICIENTS.length; i++) {
+    sum += LANCZOS_COEFFICIENTS[i] / (z + i + 1)
+  }
+  const t = z + LANCZOS_COEFFICIENTS.length - 0.5
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(sum)
+}
+
+/**
+ * Regularized upper incomplete gamma function Q(a, x).
+ * Uses a series expansion below a + 1 and a continued fraction above.
+ * @param a - Shape parameter (> 0)
+ * @param x - Upper integration bound (>= 0)
+ * @returns Q(a, x) in [0, 1]
+ * @example upperGammaQ(1, 1) // e^-1 ≈ 0.368
+ */
+export const upperGammaQ = (a: number, x: number): number => {
+  if (x <= 0) return 1
+  const lnPrefix = a * Math.log(x) - x - logGamma(a)
+
+  if (x < a + 1) {
+    let term = 1 / a
+    let sum = term
+    for (let n = 1; n < MAX_ITERATIONS; n++) {
+      term *= x / (a + n)
+      sum += term
+      if (Math.abs(term) < Math.abs(sum) * EPSILON) break
+    }
+    return Math.max(0, 1 - sum * Math.exp(lnPrefix))
+  }
+
+  // Lentz's method for the continued fraction
+  const tiny = 1e-300
+  let b = x + 1 - a
+  let c = 1 / tiny
+  let d = 1 / b
+  let h = d
+  for (let n = 1; n < MAX_ITERATIONS; n++) {
+    const an = -n * (n - a)
+    b += 2
+    d = an * d + b
+    if (Math.abs(d) < tiny) d = tiny
+    c = b + an / c
+    if (Math.abs(c) < tiny) c = tiny
+    d = 1 / d
+    const delta = d * c
+    h *= delta
+    if (Math.abs(delta - 1) < EPSILON) break
+  }
+  return Math.min(1, Math.exp(lnPrefix) * h)
+}
+
+/** Result of a chi-square goodness-of-fit test */
+export interface ChiSquareResult {
+  /** The χ² statistic */
+  statistic: number
+  /** Degrees of freedom (categories with a non-zero expectation, minus one) */
+  degreesOfFreedom: number
+  /** Probability of a statistic at least this large if the expected rates are right */
+  pValue: number
+}
+
+/**
+ * Pearson chi-square goodness-of-fit test.
+ * Categories with an expected count of 0 are skipped.
+ * @param observed - Observed counts per category
+ * @param expected - Expected counts per category (same order)
+ * @returns Statistic, degrees of freedom and p-value
+ * @example
+ * chiSquareTest([48, 52], [50, 50]) // { statistic: 0.16, degreesOfFreedom: 1, pValue: ~0.69 }
+ */
+export const chiSquareTest = (observed: number[], expected: number[]): ChiSquareResult => {
+  let statistic = 0
+  let categories = 0
+
+  for (let i = 0; i < observed.length; i++) {
+    const e = expected[i] ?? 0
+    if (e <= 0) continue
+    statistic += (observed[i] - e) ** 2 / e
+    categories += 1
+  }
+
+  const degreesOfFreedom = Math.max(categories - 1, 0)
+  const pValue = degreesOfFreedom === 0 ? 1 : upperGammaQ(degreesOfFreedom / 2, statistic / 2)
+
+  return { statistic, degreesOfFreedom, pValue }
+}
+
+/** z-score of a two-sided 95% confidence interval */
+export const Z_95 = 1.959964
+
+/**
+ * Wilson score interval for a binomial proportion.
+ * Stays inside [0, 1] and behaves well for rare events and small samples, unlike the normal approximation.
+ * @param successes - Number of hits
+ * @param trials - Number of trials
+ * @param z - z-score of the confidence level (default: 95%)
+ * @returns Lower and upper bound of the proportion (0-1), [0, 1] without trials
+ * @example wilsonInterval(3, 500) // { low: ≈0.002, high: ≈0.0175 }
+ */
+export const wilsonInterval = (successes: number, trials: number, z: number = Z_95): { low: number; high: number } => {
+  if (trials <= 0) return { low: 0, high: 1 }
+
+  const p = successes / trials
+  const z2 = z * z
+  const denominator = 1 + z2 / trials
+  const center = (p + z2 / (2 * trials)) / denominator
+  const margin = (z * Math.sqrt((p * (1 - p)) / trials + z2 / (4 * trials * trials))) / denominator
+  return { low: Math.max(center - margin, 0), high: Math.min(center + margin, 1) }
+}
@@ -0,0 +1,20 @@
+import { create } from "zustand"
+
+interface ClockState {
+  /** Dev override added to the wall clock (ms), to test scheduled events */
+  offset: number
+  /** Moves the clock to `time` (epoch ms) */
+  setTime: (time: number) => void
+  shiftTime: (ms: number) => void
+  resetClock: () => void
+}
+
+export const useClockStore = create<ClockState>((set) => ({
+  offset: 0,
+  setTime: (time) => set({ offset: time - Date.now() }),
+  shiftTime: (ms) => set((state) => ({ offset: state.offset + ms })),
+  resetClock: () => set({ offset: 0 }),
+}))
+
+/** Current time (epoch ms), including the dev override */
+export const getNow = () => Date.now() + useClockStore.getState().offset
@@ -0,0 +1,16 @@
+import { create } from "zustand"
+import { type LootConfig, lootConfig } from "@/assets/pools.ts"
+
+interface ConfigState {
+  /** Loot tables the session rolls from */
+  config: LootConfig
+  /** Replaces the config, which must already be validated */
+  setConfig: (config: LootConfig) => void
+  resetConfig: () => void
+}
+
+export const useConfigStore = create<ConfigState>((set) => ({
+  config: lootConfig,
+  setConfig: (config) => set({ config }),
+  resetConfig: () => set({ config: lootConfig }),
+}))
@@ -0,0 +1,58 @@
+import { create } from "zustand"
+import { persist } from "zustand/middleware"
+import type { ChestType, Drop } from "@/lib/loot/engine.ts"
+
+export type InventoryEntry = {
+  count: number
+  /** Epoch milliseconds of the first drop */
+  firstObtainedAt: number
+  /** Chest the item first dropped from, or CRAFT_SOURCE */
+  firstSource: ChestType
+  /** Number of copies obtained from each chest */
+  sources: Partial<Record<ChestType, number>>
+}
+
+interface InventoryState {
+  /** Owned items keyed by catalog item id */
+  items: Record<string, InventoryEntry>
+  addDrops: (drops: Drop[], source: ChestType, at?: number) => void
+  /** Removes copies of items, an item left without copies is no longer owned */
+  removeItems: (removals: { item: string; count: number }[]) => void
+  clear: () => void
+}
+
+export const useInventoryStore = create<InventoryState>()(
+  persist(
+    (set) => ({
+      items: {},
+      addDrops: (drops, source, at = Date.now()) =>
+        set((state) => {
+          const items = { ...state.items }
+          for (const { item } of drops) {
+            const entry = items[item]
+            items[item] = entry
+              ? {
+                  ...entry,
+                  count: entry.count + 1,
+                  sources: { ...entry.sources, [source]: (entry.sources[source] ?? 0) + 1 },
+                }
+              : { count: 1, firstObtainedAt: at, firstSource: source, sources: { [source]: 1 } }
+          }
+          return { items }
+        }),
+      removeItems: (removals) =>
+        set((state) => {
+          const items = { ...state.items }
+          for (const { item, count } of removals) {
+            const entry = items[item]
+            if (!entry) continue
+            if (entry.count > count) items[item] = { ...entry, count: entry.count - count }
+            else delete items[item]
+          }
+          return { items }
+        }),
+      clear: () => set({ items: {} }),
+    }),
+    { name: "pixeldrop-inventory", version: 1 },
+  ),
+)
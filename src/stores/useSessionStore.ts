@@ -0,0 +1,365 @@
+import { create } from "zustand"
+import { persist } from "zustand/middleware"
+import type { CraftRecord } from "@/lib/loot/crafting.ts"
+import {
+  type ChestType,
+  createLootEngineState,
+  type Drop,
+  HOT_STREAK,
+  type LootEngine,
+  type LootEngineState,
+  X2_EVENT,
+} from "@/lib/loot/engine.ts"
+import type { EventModifiers } from "@/lib/loot/events.ts"
+import type { DropRecord } from "@/lib/loot/history.ts"
+import { getRarityIdx, RARITY_ORDER, type Rarity } from "@/lib/loot/rarity.ts"
+import { randomSeed, type SeededUtils, seededUtils } from "@/lib/random.ts"
+import {
+  deleteSaveSlot,
+  type Migrations,
+  migrateSave,
+  readSaveSlot,
+  type SlotResult,
+  writeSaveSlot,
+} from "@/lib/saves.ts"
+import { getNow } from "@/stores/useClockStore.ts"
+
+/** Oldest records are dropped past this, to stay within the localStorage quota */
+export const MAX_HISTORY = 5000
+
+const SESSION_STORAGE_KEY = "pixeldrop-session"
+export const SESSION_SAVE_VERSION = 8
+export const SESSION_SLOT_COUNT = 3
+/** Upgrades older session saves, keyed by the version they upgrade from */
+const SESSION_MIGRATIONS: Migrations = {
+  1: (data) => ({ ...data, history: [] }),
+  // Expected counts only cover the rolls made from now on
+  2: (data) => ({
+    ...data,
+    lootState: { ...(data.lootState as Record<string, unknown>), expected: {} },
+    expectedCounts: {},
+  }),
+  3: (data) => ({
+    ...data,
+    lootState: { ...(data.lootState as Record<string, unknown>), banners: {} },
+  }),
+  4: (data) => ({ ...data, crafts: [], craftedCounts: createObservedCounts() }),
+  // Fragments used to be spent automatically, the balance is kept for keys
+  5: (data) => ({ ...data, chestKeys: {}, selectedKey: null }),
+  // Version 7 saved a per-session item set for duplicate protection, which reads the collection again
+  6: (data) => data,
+  7: ({ obtainedItems: _, ...data }) => data,
+}
+
+export type ObservedItem = { rarity: string; count: number }
+
+/** How a chest is rolled, decided when it is opened */
+export type ChestOpening = { requestedChest: ChestType; chestType: ChestType; multiplier: number; rarityBoost: number }
+
+/** Manual (dev tools) event modifiers applied to every following chest */
+export type SessionEvent = { chest?: ChestType; multiplier?: number }
+
+interface SessionData {
+  seed: number
+  rng: SeededUtils
+  /** Engine roll and pity counters, mutated in place by the loot engine */
+  lootState: LootEngineState
+  /** Chest selected by the current event */
+  activeChest: ChestType
+  /** Drop multiplier of the current event */
+  dropMultiplier: number
+  /** Chest actually rolled by the last opening (after stored keys and upgrades) */
+  effectiveChest: ChestType
+  attempts: number
+  rollCount: number
+  /** Items dropped since the last rare+ / epic+ drop */
+  streakRare: number
+  streakEpic: number
+  fragments: number
+  /** Stored chest keys bought with fragments, by chest type */
+  chestKeys: Record<ChestType, number>
+  /** Stored chest the next opening uses, null for the event chest */
+  selectedKey: ChestType | null
+  /** Remaining boosted openings after a rare+ drop */
+  hotStreakRolls: number
+  /** Remaining openings of the random x2 event */
+  x2RollsLeft: number
+  /** Opening at which the next x2 event starts, scheduled on the first opening */
+  nextX2Threshold: number | null
+  totalRollsForEvent: number
+  observedCounts: Record<Rarity, number>
+  /** Expected drops per rarity, summed over the odds of every roll (see LootEngineState.expected) */
+  expectedCounts: Record<string, number>
+  /** Dropped items keyed by catalog item id */
+  observedItems: Record<string, ObservedItem>
+  /** Every opening of the session, oldest first (up to MAX_HISTORY) */
+  history: DropRecord[]
+  /** Every craft of the session, oldest first (up to MAX_HISTORY), kept out of the chest stats */
+  crafts: CraftRecord[]
+  /** Crafted items per rarity */
+  craftedCounts: Record<Rarity, number>
+}
+
+/** Serializable session, as autosaved and written to save slots */
+export type SessionSnapshot = Omit<SessionData, "rng"> & { rngState: number }
+
+interface SessionState extends SessionData {
+  /**
+   * Starts a chest opening: uses the selected key or rolls the chest upgrade, and ticks the x2 and hot streak events.
+   * @param engine - Engine holding the chest definitions
+   * @param timed - Modifiers of the running timed events, stacked over the manual ones
+   * @returns The chest type, drop multiplier and rarity boost to roll the loot with
+   */
+  openChest: (engine: Pick<LootEngine, "rollChestType">, timed?: EventModifiers) => ChestOpening
+  /**
+   * Records the drops of an opening: history, observed counts, dry streaks and hot streak.
+   * @param at - Opening time (default: now, dev clock override included)
+   */
+  recordDrops: (drops: Drop[], opening: ChestOpening, at?: number) => void
+  applyEvent: (event: SessionEvent) => void
+  /** Records a craft, successful or not */
+  recordCraft: (record: CraftRecord) => void
+  /** Credits fragments earned outside chest openings, e.g. by salvaging items */
+  addFragments: (amount: number) => void
+  /**
+   * Trades fragments for a stored chest key.
+   * @returns Whether the key was bought, false when the chest has no fragment cost or it isn't affordable
+   */
+  buyChestKey: (engine: Pick<LootEngine, "getFragmentCosts">, chestType: ChestType) => boolean
+  /** Picks the stored chest the next openings use, null for the event chest */
+  selectKey: (chestType: ChestType | null) => void
+  /** Clears every counter and restarts the RNG from the current seed, events are kept */
+  resetSession: () => void
+  /** Starts a fresh session on a seed, like resetSession, so the seed alone replays it */
+  setSeed: (seed: number) => void
+  saveSlot: (slot: number) => void
+  /** Replaces the session with a save slot, leaves it untouched if the slot can't be loaded */
+  loadSlot: (slot: number) => SlotResult<SessionSnapshot>
+  deleteSlot: (slot: number) => void
+}
+
+const getUrlSeed = (): number | null => {
+  const param = new URLSearchParams(globalThis.location?.search).get("seed")
+  const seed = param === null ? Number.NaN : Number.parseInt(param, 10)
+  return Number.isNaN(seed) ? null : seed >>> 0
+}
+
+const scheduleNextX2 = (rng: SeededUtils, fromRoll: number) =>
+  fromRoll + rng.int(X2_EVENT.every.min, X2_EVENT.every.max)
+
+const createObservedCounts = () => Object.fromEntries(RARITY_ORDER.map((r) => [r, 0])) as Record<Rarity, number>
+
+const createSession = (seed: number) => ({
+  rng: seededUtils(seed),
+  lootState: createLootEngineState(),
+  effectiveChest: "normal" as ChestType,
+  attempts: 0,
+  rollCount: 0,
+  streakRare: 0,
+  streakEpic: 0,
+  fragments: 0,
+  chestKeys: {},
+  selectedKey: null,
+  hotStreakRolls: 0,
+  x2RollsLeft: 0,
+  nextX2Threshold: null,
+  totalRollsForEvent: 0,
+  observedCounts: createObservedCounts(),
+  expectedCounts: {},
+  observedItems: {},
+  history: [],
+  crafts: [],
+  craftedCounts: createObservedCounts(),
+})
+
+const toSnapshot = (state: SessionData): SessionSnapshot => ({
+  seed: state.seed,
+  rngState: state.rng.getState(),
+  lootState: state.lootState,
+  activeChest: state.activeChest,
+  dropMultiplier: state.dropMultiplier,
+  effectiveChest: state.effectiveChest,
+  attempts: state.attempts,
+  rollCount: state.rollCount,
+  streakRare: state.streakRare,
+  streakEpic: state.streakEpic,
+  fragments: state.fragments,
+  chestKeys: state.chestKeys,
+  selectedKey: state.selectedKey,
+  hotStreakRolls: state.hotStreakRolls,
+  x2RollsLeft: state.x2RollsLeft,
+  nextX2Threshold: state.nextX2Threshold,
+  totalRollsForEvent: state.totalRollsForEvent,
+  observedCounts: state.observedCounts,
+  expectedCounts: state.expectedCounts,
+  observedItems: state.observedItems,
+  history: state.history,
+  crafts: state.crafts,
+  craftedCounts: state.craftedCounts,
+})
+
+const fromSnapshot = ({ rngState, ...snapshot }: SessionSnapshot): SessionData => ({
+  ...snapshot,
+  rng: seededUtils(snapshot.seed, rngState),
+})
+
+/**
+ * Reads a manual session save, migrated to the current version.
+ * @param slot - Slot number (0 to SESSION_SLOT_COUNT - 1)
+ * @returns The saved session, or why it can't be loaded
+ */
+export const readSessionSlot = (slot: number): SlotResult<SessionSnapshot> =>
+  readSaveSlot(SESSION_STORAGE_KEY, slot, SESSION_SAVE_VERSION, SESSION_MIGRATIONS)
+
+const urlSeed = getUrlSeed()
+const initialSeed = urlSeed ?? randomSeed()
+
+export const useSessionStore = create<SessionState>()(
+  persist(
+    (set, get) => ({
+      seed: initialSeed,
+      activeChest: "normal",
+      dropMultiplier: 1,
+      ...createSession(initialSeed),
+
+      openChest: (engine, timed = {}) => {
+        const state = get()
+        const { rng } = state
+        const key =
+          state.selectedKey !== null && (state.chestKeys[state.selectedKey] ?? 0) > 0 ? state.selectedKey : null
+        const requestedChest = key ?? timed.chest ?? state.activeChest
+        const chestType = key ?? engine.rollChestType(requestedChest)
+        const keysLeft = key ? state.chestKeys[key] - 1 : 0
+
+        let multiplier = Math.max(state.dropMultiplier, timed.multiplier ?? 1)
+        let x2RollsLeft = state.x2RollsLeft
+        if (x2RollsLeft > 0) {
+          multiplier = Math.max(multiplier, X2_EVENT.multiplier)
+          x2RollsLeft -= 1
+        }
+
+        const totalRollsForEvent = state.totalRollsForEvent + 1
+        let nextX2Threshold = state.nextX2Threshold ?? scheduleNextX2(rng, 0)
+        if (totalRollsForEvent >= nextX2Threshold && state.x2RollsLeft <= 0) {
+          x2RollsLeft = rng.int(X2_EVENT.openings.min, X2_EVENT.openings.max)
+          nextX2Threshold = scheduleNextX2(rng, totalRollsForEvent)
+        }
+
+        const rarityBoost = (state.hotStreakRolls > 0 ? HOT_STREAK.boost : 1) * (timed.rarityBoost ?? 1)
+
+        set({
+          attempts: state.attempts + 1,
+          effectiveChest: chestType,
+          fragments: state.fragments + 1,
+          ...(key && {
+            chestKeys: { ...state.chestKeys, [key]: keysLeft },
+            selectedKey: keysLeft > 0 ? key : null,
+          }),
+          x2RollsLeft,
+          nextX2Threshold,
+          totalRollsForEvent,
+          hotStreakRolls: Math.max(state.hotStreakRolls - 1, 0),
+        })
+
+        return { requestedChest, chestType, multiplier, rarityBoost }
+      },
+
+      recordDrops: (drops, opening, at = getNow()) => {
+        const state = get()
+        const observedCounts = { ...state.observedCounts }
+        const observedItems = { ...state.observedItems }
+        let bestIdx = 0
+        for (const { item, rarity } of drops) {
+          observedCounts[rarity as Rarity] = (observedCounts[rarity as Rarity] ?? 0) + 1
+          observedItems[item] = { rarity, count: (observedItems[item]?.count ?? 0) + 1 }
+          bestIdx = Math.max(bestIdx, getRarityIdx(rarity))
+        }
+
+        const record: DropRecord = {
+          attempt: state.attempts,
+          at,
+          requestedChest: opening.requestedChest,
+          chest: opening.chestType,
+          multiplier: opening.multiplier,
+          rarityBoost: opening.rarityBoost,
+          drops,
+        }
+
+        set({
+          rollCount: state.lootState.rollCount,
+          expectedCounts: { ...state.lootState.expected },
+          history: [...state.history.slice(-(MAX_HISTORY - 1)), record],
+          observedCounts,
+          observedItems,
+          streakRare: bestIdx >= 2 ? 0 : state.streakRare + drops.length,
+          streakEpic: bestIdx >= 3 ? 0 : state.streakEpic + drops.length,
+          ...(bestIdx >= getRarityIdx(HOT_STREAK.minRarity) && {
+            hotStreakRolls: state.rng.int(HOT_STREAK.openings.min, HOT_STREAK.openings.max),
+          }),
+        })
+      },
+
+      applyEvent: ({ chest, multiplier }) =>
+        set((state) => ({
+          activeChest: chest ?? state.activeChest,
+          dropMultiplier: multiplier ?? state.dropMultiplier,
+        })),
+
+      recordCraft: (record) =>
+        set((state) => ({
+          crafts: [...state.crafts.slice(-(MAX_HISTORY - 1)), record],
+          craftedCounts: record.item
+            ? { ...state.craftedCounts, [record.rarity]: state.craftedCounts[record.rarity] + 1 }
+            : state.craftedCounts,
+        })),
+
+      addFragments: (amount) => set((state) => ({ fragments: state.fragments + amount })),
+
+      buyChestKey: (engine, chestType) => {
+        const state = get()
+        const cost = engine.getFragmentCosts().find((entry) => entry.chestType === chestType)?.cost
+        if (cost === undefined || state.fragments < cost) return false
+
+        set({
+          fragments: state.fragments - cost,
+          chestKeys: { ...state.chestKeys, [chestType]: (state.chestKeys[chestType] ?? 0) + 1 },
+        })
+        return true
+      },
+
+      selectKey: (chestType) => set({ selectedKey: chestType }),
+
+      resetSession: () => set((state) => createSession(state.seed)),
+
+      setSeed: (seed) => set(() => ({ seed, ...createSession(seed) })),
+
+      saveSlot: (slot) => writeSaveSlot(SESSION_STORAGE_KEY, slot, SESSION_SAVE_VERSION, toSnapshot(get())),
+
+      loadSlot: (slot) => {
+        const result = readSessionSlot(slot)
+        if (result.ok) set(fromSnapshot(result.slot.data))
+        return result
+      },
+
+      deleteSlot: (slot) => deleteSaveSlot(SESSION_STORAGE_KEY, slot),
+    }),
+    {
+      name: SESSION_STORAGE_KEY,
+      version: SESSION_SAVE_VERSION,
+      partialize: (state) => toSnapshot(state),
+      migrate: (persisted, version) =>
+        migrateSave(
+          persisted as Record<string, unknown>,
+          version,
+          SESSION_SAVE_VERSION,
+          SESSION_MIGRATIONS,
+        ) as SessionSnapshot,
+      // A ?seed= link that differs from the save starts a fresh session on that seed
+      merge: (persisted, current) => {
+        const snapshot = persisted as SessionSnapshot | undefined
+        if (!snapshot || (urlSeed !== null && urlSeed !== snapshot.seed)) return current
+        return { ...current, ...fromSnapshot(snapshot) }
+      },
+    },
+  ),
+)